@@ -4,12 +4,19 @@
  */
 
 import pg from "pg";
+import {
+  GetSecretValueCommand,
+  SecretsManagerClient,
+} from "@aws-sdk/client-secrets-manager";
+import { errorFields, logger } from "../logger";
 const {
   POSTGRES_USER,
   POSTGRES_HOST,
   POSTGRES_PORT,
   POSTGRES_PASSWORD,
   POSTGRES_DB,
+  POSTGRES_READ_HOSTS,
+  POSTGRES_SECRET_ARN,
 } = process.env;
 
 Object.entries({
@@ -24,12 +31,72 @@ Object.entries({
   }
 });
 
+// Postgres rejects an outdated password with this code
+const INVALID_PASSWORD = "28P01";
+
+// ECS injects the password when the task starts, once it got rotated we read the current one from the secret
+let password = Promise.resolve(POSTGRES_PASSWORD!);
+
+function refreshPassword(rejected: string) {
+  if (!POSTGRES_SECRET_ARN) {
+    return;
+  }
+  password = password.then((current) => {
+    // another connection already read the new one
+    if (current !== rejected) {
+      return current;
+    }
+    logger.info("Reading the rotated database password");
+    // e.g. arn:aws:secretsmanager:us-east-1:123456789012:secret:name
+    const region = POSTGRES_SECRET_ARN.split(":")[3];
+    return new SecretsManagerClient({ region })
+      .send(new GetSecretValueCommand({ SecretId: POSTGRES_SECRET_ARN }))
+      .then(({ SecretString }) => JSON.parse(SecretString!).password as string)
+      .catch((e) => {
+        logger.error("Could not read the database password", errorFields(e));
+        return current;
+      });
+  });
+}
+
+// Every connection asks for the password, the one failing with the outdated password triggers the refresh for the next ones.
+// The pools call it with new, pg.Client can't be extended as we compile to ES5.
+function Client(config: pg.ClientConfig) {
+  const client = new pg.Client(config);
+  const connect = client.connect.bind(client);
+  client.connect = ((callback?: (err?: Error) => void) => {
+    const connected = connect().catch((e) => {
+      if (e.code === INVALID_PASSWORD && client.password) {
+        refreshPassword(client.password);
+      }
+      throw e;
+    });
+    if (!callback) {
+      return connected;
+    }
+    connected.then(() => callback(), callback);
+  }) as typeof client.connect;
+  return client;
+}
+
 export const clientConfig = {
   database: POSTGRES_DB,
   user: POSTGRES_USER,
   port: parseInt(POSTGRES_PORT!, 10),
   host: POSTGRES_HOST,
-  password: POSTGRES_PASSWORD,
+  password: () => password,
+  // used by the pools for their connections
+  Client,
 };
 
-export const client = new pg.Client(clientConfig);
+export const client = Client(clientConfig);
+
+// Every task picks one of the read replicas, which spreads the reads across all of them
+const readHosts = (POSTGRES_READ_HOSTS || "").split(",").filter(Boolean);
+
+export const readClientConfig = {
+  ...clientConfig,
+  host: readHosts.length
+    ? readHosts[Math.floor(Math.random() * readHosts.length)]
+    : POSTGRES_HOST,
+};
@@ -5,6 +5,8 @@
 
 import { Pool } from "pg";
 
-import { clientConfig } from "./config";
+import { clientConfig, readClientConfig } from "./config";
 
 export const db = new Pool(clientConfig);
+// Replicas lag slightly behind, only use this where stale data is fine
+export const readDb = new Pool(readClientConfig);
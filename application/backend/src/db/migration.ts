@@ -6,24 +6,51 @@
 import migrate from "node-pg-migrate";
 import { MigrationDirection } from "node-pg-migrate/dist/types";
 import { resolve } from "path";
-import { client, clientConfig } from "./config";
+import { clientConfig } from "./config";
 import { Pool } from "pg";
+import { logger } from "../logger";
 
-async function setupDb() {
-  console.log("Running DB migrations", client, JSON.stringify(clientConfig));
-  await migrate({
-    dbClient: new Pool(clientConfig) as any,
-    count: Infinity,
-    createMigrationsSchema: true,
-    createSchema: true,
-    dir: resolve(__dirname, "../../migrations"),
-    direction: "up" as MigrationDirection,
-    ignorePattern: ".*.ts",
-    logger: console,
-    migrationsTable: "migrations",
-    verbose: true,
-  });
-  console.log("Done running migrations");
+// Without dryRun the pending migrations are applied, with it they are only listed
+async function migrations(dryRun: boolean) {
+  // node-pg-migrate does not end a client it was given, every retry of the check would leave its connections open otherwise
+  const pool = new Pool(clientConfig);
+  try {
+    return await migrate({
+      dbClient: pool as any,
+      count: Infinity,
+      // a dry run only reads
+      createMigrationsSchema: !dryRun,
+      createSchema: !dryRun,
+      dir: resolve(__dirname, "../../migrations"),
+      direction: "up" as MigrationDirection,
+      dryRun,
+      // a dry run changes nothing, so tasks starting together must not fail on each other's lock
+      noLock: dryRun,
+      ignorePattern: ".*.ts",
+      logger,
+      migrationsTable: "migrations",
+      verbose: true,
+    });
+  } finally {
+    await pool.end();
+  }
 }
 
-export const dbMigrationDone = setupDb();
+export async function runMigrations() {
+  logger.info("Running DB migrations", { host: clientConfig.host });
+  await migrations(false);
+  logger.info("Done running migrations");
+}
+
+// Used when the migrations run as a separate task, we only make sure they did
+export async function checkSchemaVersion() {
+  const pending = await migrations(true);
+  if (pending.length) {
+    throw new Error(
+      `Database schema is not up to date, pending migrations: ${pending
+        .map(({ name }) => name)
+        .join(", ")}`
+    );
+  }
+  logger.info("Database schema is up to date");
+}
@@ -5,17 +5,39 @@
 
 import express from "express";
 import cors from "cors";
-import { db } from "./db";
-import { dbMigrationDone } from "./db/migration";
+import { db, readDb } from "./db";
+import { checkSchemaVersion, runMigrations } from "./db/migration";
+import { errorFields, logger } from "./logger";
 
 const app = express();
 const port = parseInt(process.env.PORT || "4000");
 
+// In AWS a one-off task migrates before the service gets updated, locally we still migrate on startup
+const prepareDb = () =>
+  process.env.SKIP_MIGRATIONS === "true"
+    ? checkSchemaVersion()
+    : runMigrations();
+
+// A failed attempt is retried with the next request, e.g. the next health check, instead of failing the task for good
+let dbReady: Promise<void> | undefined;
+function dbMigrationDone(): Promise<void> {
+  const ready =
+    dbReady ||
+    prepareDb().catch((e) => {
+      logger.error("Database is not ready", errorFields(e));
+      dbReady = undefined;
+      throw e;
+    });
+  dbReady = ready;
+  return ready;
+}
+dbMigrationDone().catch(() => undefined);
+
 app.use(cors());
 app.use(express.json());
 
 app.use((req, _res, next) => {
-  console.log(`${req.method} ${req.path}`);
+  logger.info("Request", { method: req.method, path: req.path });
   next();
 });
 
@@ -24,28 +46,33 @@ app.get("/", (_req, res) => {
 });
 
 app.get("/ready", async (_req, res) => {
-  await dbMigrationDone;
-  res.sendStatus(200);
+  try {
+    await dbMigrationDone();
+    res.sendStatus(200);
+  } catch (e) {
+    // the health check fails, so this task never receives traffic
+    res.sendStatus(503);
+  }
 });
 
 const applicationRouter = express.Router();
 
 applicationRouter.get("/posts", async (_req, res) => {
   try {
-    await dbMigrationDone;
-    const { rows } = await db.query("SELECT id,content FROM posts");
+    await dbMigrationDone();
+    const { rows } = await readDb.query("SELECT id,content FROM posts");
 
     res.status(200).json({
       data: rows,
     });
   } catch (e) {
-    console.error(e);
+    logger.error("Could not read posts", errorFields(e));
     res.status(500).json({ error: e.toString() });
   }
 });
 
 applicationRouter.get("/posts/:id/detail", async (req, res) => {
-  await dbMigrationDone;
+  await dbMigrationDone();
 
   const { rows } = await db.query("SELECT * FROM posts WHERE id = $1", [
     req.params.id,
@@ -56,7 +83,7 @@ applicationRouter.get("/posts/:id/detail", async (req, res) => {
 
 applicationRouter.post("/posts", async (req, res) => {
   const { content, author } = req.body;
-  await dbMigrationDone;
+  await dbMigrationDone();
   await db.query("INSERT INTO posts (content, author) VALUES ($1, $2)", [
     content,
     author,
@@ -67,5 +94,5 @@ applicationRouter.post("/posts", async (req, res) => {
 app.use("/backend", applicationRouter);
 
 app.listen(port, () => {
-  console.log(`Started at http://localhost:${port}`);
+  logger.info(`Started at http://localhost:${port}`, { port });
 });
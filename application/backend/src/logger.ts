@@ -0,0 +1,31 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+// Writes one JSON object per line, so that FireLens and CloudWatch can filter on its fields, e.g. { $.level = "error" }
+type Level = "debug" | "info" | "warn" | "error";
+
+function write(level: Level, message: string, fields?: object) {
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    message,
+    ...fields,
+  });
+  (level === "error" ? process.stderr : process.stdout).write(line + "\n");
+}
+
+// Errors don't serialize to JSON on their own
+export function errorFields(e: unknown) {
+  return e instanceof Error
+    ? { error: { name: e.name, message: e.message, stack: e.stack } }
+    : { error: String(e) };
+}
+
+export const logger = {
+  debug: (message: string, fields?: object) => write("debug", message, fields),
+  info: (message: string, fields?: object) => write("info", message, fields),
+  warn: (message: string, fields?: object) => write("warn", message, fields),
+  error: (message: string, fields?: object) => write("error", message, fields),
+};
@@ -0,0 +1,15 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+// Entrypoint of the one-off migration task, the exit code tells the deployment whether it worked
+import { runMigrations } from "./db/migration";
+import { errorFields, logger } from "./logger";
+
+runMigrations()
+  .then(() => process.exit(0))
+  .catch((e) => {
+    logger.error("Migrations failed", errorFields(e));
+    process.exit(1);
+  });
@@ -0,0 +1,142 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as zlib from "zlib";
+import { TerraformStack, Testing } from "cdktf";
+import { AwsProvider } from "@cdktf/provider-aws/lib/provider";
+import { S3Bucket } from "@cdktf/provider-aws/lib/s3-bucket";
+import { NullProvider } from "@cdktf/provider-null/lib/provider";
+import { AssetDeployment } from "../asset-deployment";
+import { staging } from "../config";
+
+let tmp: string;
+let outdir: string;
+let build: string;
+
+beforeEach(() => {
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), "asset-deployment-"));
+  outdir = path.join(tmp, "cdktf.out");
+  build = path.join(tmp, "build");
+  fs.mkdirSync(path.join(build, "static"), { recursive: true });
+});
+
+afterEach(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+function deploy(sourcePath: string) {
+  const stack = new TerraformStack(Testing.app({ outdir }), "test");
+  new AwsProvider(stack, "aws", { region: "us-east-1" });
+  new NullProvider(stack, "null", {});
+  const bucket = new S3Bucket(stack, "bucket", {});
+  const deployment = new AssetDeployment(
+    stack,
+    "content",
+    bucket,
+    sourcePath,
+    { precompress: "gzip" },
+    staging
+  );
+  return { stack, deployment };
+}
+
+describe("AssetDeployment", () => {
+  it("refuses to deploy a missing or empty build", () => {
+    expect(() => deploy(path.join(tmp, "missing"))).toThrow(
+      /is missing or empty/
+    );
+    expect(() => deploy(build)).toThrow(/is missing or empty/);
+  });
+
+  it("stages compressed copies next to the files within the outdir", () => {
+    fs.writeFileSync(path.join(build, "index.html"), "<html></html>");
+    fs.writeFileSync(path.join(build, "static/main.3f2a1b9c.js"), "run()");
+    fs.writeFileSync(path.join(build, "static/logo.png"), "png");
+
+    const { stack, deployment } = deploy(build);
+    const stagingPath = path.join(outdir, "staging", deployment.node.addr);
+
+    expect(fs.readFileSync(path.join(stagingPath, "index.html"), "utf8")).toBe(
+      "<html></html>"
+    );
+    expect(
+      zlib
+        .gunzipSync(fs.readFileSync(path.join(stagingPath, "index.html.gz")))
+        .toString()
+    ).toBe("<html></html>");
+    expect(fs.existsSync(path.join(stagingPath, "static/logo.png.gz"))).toBe(
+      false
+    );
+    // the build output stays as it is
+    expect(fs.readdirSync(build).sort()).toEqual(["index.html", "static"]);
+
+    const uploads: Record<
+      string,
+      { provisioner: { "local-exec": { command: string } }[] }
+    > = JSON.parse(Testing.synth(stack)).resource.null_resource;
+    const [command] = Object.values(uploads).map(
+      ({ provisioner }) => provisioner[0]["local-exec"].command
+    );
+    // the copies keep the content type of their file
+    expect(command).toContain(
+      "--include 'static/main.3f2a1b9c.js.gz' --content-type 'application/javascript' --cache-control 'public, max-age=31536000, immutable' --content-encoding gzip"
+    );
+    expect(command).toContain(
+      "--include 'index.html' --content-type 'text/html' --cache-control 'no-cache' &&"
+    );
+    // the entry point goes last and the prune only removes what is left over
+    expect(command).toMatch(
+      /main\.3f2a1b9c\.js.*index\.html.*aws s3 sync \. .* --delete --size-only$/
+    );
+  });
+
+  it("serves the compressed copies to clients that accept them", () => {
+    fs.writeFileSync(path.join(build, "index.html"), "<html></html>");
+    fs.writeFileSync(path.join(build, "static/main.3f2a1b9c.js"), "run()");
+
+    const { stack } = deploy(build);
+    const [{ code }]: { code: string }[] = Object.values(
+      JSON.parse(Testing.synth(stack)).resource.aws_cloudfront_function
+    );
+    const handler = new Function(`${code}; return handler;`)();
+    const request = (uri: string, acceptEncoding?: string) =>
+      handler({
+        request: {
+          uri,
+          headers: acceptEncoding
+            ? { "accept-encoding": { value: acceptEncoding } }
+            : {},
+        },
+      }).uri;
+
+    expect(request("/static/main.3f2a1b9c.js", "br, gzip")).toBe(
+      "/static/main.3f2a1b9c.js.gz"
+    );
+    expect(request("/index.html", "gzip;q=1.0")).toBe("/index.html.gz");
+    expect(request("/static/main.3f2a1b9c.js")).toBe(
+      "/static/main.3f2a1b9c.js"
+    );
+    expect(request("/static/main.3f2a1b9c.js", "br")).toBe(
+      "/static/main.3f2a1b9c.js"
+    );
+    // the SPA routes and the default root object are left alone
+    expect(request("/posts/1.2/edit", "gzip")).toBe("/posts/1.2/edit");
+    expect(request("/", "gzip")).toBe("/");
+    expect(request("/logo.png", "gzip")).toBe("/logo.png");
+  });
+
+  it("replaces what an earlier synth staged", () => {
+    fs.writeFileSync(path.join(build, "old.html"), "old");
+    deploy(build);
+    fs.rmSync(path.join(build, "old.html"));
+    fs.writeFileSync(path.join(build, "new.html"), "new");
+
+    const { deployment } = deploy(build);
+    expect(
+      fs.readdirSync(path.join(outdir, "staging", deployment.node.addr))
+    ).toEqual(["new.html", "new.html.gz"]);
+  });
+});
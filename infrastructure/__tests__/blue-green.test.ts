@@ -0,0 +1,86 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { TerraformStack, Testing } from "cdktf";
+import { AwsProvider } from "@cdktf/provider-aws/lib/provider";
+import { EcsService } from "@cdktf/provider-aws/lib/ecs-service";
+import { EcsTaskDefinition } from "@cdktf/provider-aws/lib/ecs-task-definition";
+import { Lb } from "@cdktf/provider-aws/lib/lb";
+import { LbListener } from "@cdktf/provider-aws/lib/lb-listener";
+import { LbTargetGroup } from "@cdktf/provider-aws/lib/lb-target-group";
+import { NullProvider } from "@cdktf/provider-null/lib/provider";
+import { BlueGreenDeployment } from "../blue-green";
+import { production, TrafficShiftingConfig } from "../config";
+
+function deploymentConfig(trafficShifting: TrafficShiftingConfig) {
+  const stack = new TerraformStack(Testing.app(), "test");
+  new AwsProvider(stack, "aws", { region: "us-east-1" });
+  new NullProvider(stack, "null", {});
+  const lb = new Lb(stack, "lb", { name: "lb" });
+  const listener = (port: number) =>
+    new LbListener(stack, `listener-${port}`, {
+      loadBalancerArn: lb.arn,
+      port,
+      defaultAction: [{ type: "forward" }],
+    });
+  const targetGroup = (id: string) =>
+    new LbTargetGroup(stack, id, { name: id });
+  new BlueGreenDeployment(
+    stack,
+    "backend-deployment",
+    {
+      service: new EcsService(stack, "service", { name: "backend" }),
+      task: new EcsTaskDefinition(stack, "task", {
+        family: "backend",
+        containerDefinitions: "[]",
+      }),
+      clusterName: "cluster",
+      containerName: "backend",
+      containerPort: 80,
+      capacityProviderStrategy: [{ capacityProvider: "FARGATE", weight: 1 }],
+      lb,
+      targetGroups: [targetGroup("blue"), targetGroup("green")],
+      productionListener: listener(80),
+      testListener: listener(8080),
+      trafficShifting,
+    },
+    production
+  );
+  const [config] = Object.values(
+    JSON.parse(Testing.synth(stack)).resource.aws_codedeploy_deployment_config
+  ) as {
+    deployment_config_name: string;
+    lifecycle: { create_before_destroy: boolean };
+  }[];
+  return config;
+}
+
+describe("BlueGreenDeployment", () => {
+  it("names the deployment config after all of its settings", () => {
+    expect(
+      deploymentConfig({ type: "canary", percentage: 10, intervalMinutes: 5 })
+    ).toEqual(
+      expect.objectContaining({
+        deployment_config_name:
+          "production-backend-deployment-canary-10pct-5min",
+        traffic_routing_config: {
+          type: "TimeBasedCanary",
+          time_based_canary: { percentage: 10, interval: 5 },
+        },
+        lifecycle: { create_before_destroy: true },
+      })
+    );
+    expect(
+      deploymentConfig({ type: "canary", percentage: 20 })
+        .deployment_config_name
+    ).toBe("production-backend-deployment-canary-20pct-5min");
+    expect(deploymentConfig({ type: "linear" }).deployment_config_name).toBe(
+      "production-backend-deployment-linear-10pct-1min"
+    );
+    expect(
+      deploymentConfig({ type: "all-at-once" }).deployment_config_name
+    ).toBe("production-backend-deployment-all-at-once");
+  });
+});
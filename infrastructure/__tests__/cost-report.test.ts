@@ -0,0 +1,217 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { buildReport, CostReport, toMarkdown } from "../cost-report";
+
+const HOURS = 730;
+const outdirs: string[] = [];
+
+// Writes a cdktf.out with a single stack, like `cdktf synth` does
+function synthesized(stack: Record<string, unknown>, region = "us-east-1") {
+  const outdir = fs.mkdtempSync(path.join(os.tmpdir(), "cost-report-"));
+  outdirs.push(outdir);
+  const stackPath = "stacks/example-data/cdk.tf.json";
+  fs.mkdirSync(path.join(outdir, "stacks/example-data"), { recursive: true });
+  fs.writeFileSync(
+    path.join(outdir, "manifest.json"),
+    JSON.stringify({
+      stacks: {
+        "example-data": {
+          name: "example-data",
+          synthesizedStackPath: stackPath,
+        },
+      },
+    })
+  );
+  fs.writeFileSync(
+    path.join(outdir, stackPath),
+    JSON.stringify({ provider: { aws: [{ region }] }, ...stack })
+  );
+  return outdir;
+}
+
+const withPath = (constructPath: string) => ({
+  "//": { metadata: { path: `example-data/${constructPath}` } },
+});
+
+afterAll(() =>
+  outdirs.forEach((outdir) =>
+    fs.rmSync(outdir, { recursive: true, force: true })
+  )
+);
+
+describe("buildReport", () => {
+  it("prices Fargate services by their task definition", () => {
+    const report = buildReport(
+      synthesized({
+        resource: {
+          aws_ecs_task_definition: {
+            task: { ...withPath("cluster/task"), cpu: "512", memory: "1024" },
+          },
+          aws_ecs_service: {
+            service: {
+              ...withPath("cluster/service"),
+              task_definition: "${aws_ecs_task_definition.task.arn}",
+              desired_count: 2,
+            },
+          },
+        },
+      })
+    );
+
+    const service = report.resources.find((r) => r.type === "aws_ecs_service");
+    expect(service).toEqual({
+      stack: "example-data",
+      path: "cluster/service",
+      type: "aws_ecs_service",
+      monthly: 2 * (0.5 * 0.04048 + 1 * 0.004445) * HOURS,
+      note: "2 task(s) on Fargate, autoscaling changes this",
+    });
+    expect(report.total).toBeCloseTo(service!.monthly!);
+  });
+
+  it("prices read replicas with the storage of their source", () => {
+    const report = buildReport(
+      synthesized({
+        module: {
+          db_primary: {
+            ...withPath("db/db"),
+            source: "terraform-aws-modules/rds/aws",
+            instance_class: "db.t3.medium",
+            allocated_storage: "20",
+            multi_az: true,
+          },
+          db_replica: {
+            ...withPath("db/db-replica-0"),
+            source: "terraform-aws-modules/rds/aws",
+            instance_class: "db.t3.medium",
+            replicate_source_db:
+              "${tostring(module.db_primary.db_instance_id)}",
+          },
+        },
+      })
+    );
+
+    const instance = 0.072 * HOURS + 20 * 0.115;
+    expect(
+      report.resources.map(({ monthly, note }) => ({ monthly, note }))
+    ).toEqual([
+      { monthly: 2 * instance, note: "Multi-AZ" },
+      { monthly: instance, note: "read replica" },
+    ]);
+    expect(report.total).toBeCloseTo(3 * instance);
+  });
+
+  it("prices only the instance if the storage is unknown", () => {
+    const report = buildReport(
+      synthesized({
+        resource: {
+          aws_db_instance: {
+            replica: {
+              instance_class: "db.t3.micro",
+              replicate_source_db: "arn:aws:rds:us-east-1:123:db:elsewhere",
+            },
+          },
+        },
+      })
+    );
+
+    expect(report.resources[0]).toMatchObject({
+      path: "replica",
+      monthly: 0.018 * HOURS,
+      note: "read replica, storage not priced",
+    });
+    expect(Number.isNaN(report.total)).toBe(false);
+  });
+
+  it("notes what it can not price", () => {
+    const report = buildReport(
+      synthesized({
+        resource: {
+          aws_s3_bucket: { bucket: {} },
+          aws_iam_role: { role: {} },
+          aws_db_instance: { db: { instance_class: "db.x2g.16xlarge" } },
+        },
+      })
+    );
+
+    expect(
+      report.resources.map(({ monthly, note }) => ({ monthly, note }))
+    ).toEqual([
+      { note: "usage based" },
+      { monthly: 0 },
+      { note: "no price for db.x2g.16xlarge" },
+    ]);
+    expect(report.total).toBe(0);
+  });
+
+  it("has no prices for unknown regions", () => {
+    const report = buildReport(
+      synthesized(
+        { resource: { aws_nat_gateway: { nat: {} } } },
+        "ap-southeast-2"
+      )
+    );
+
+    expect(report.resources[0].note).toBe("no prices for this region");
+    expect(report.total).toBe(0);
+  });
+});
+
+describe("toMarkdown", () => {
+  const report = (resources: CostReport["resources"]): CostReport => ({
+    priceTableVersion: "2024-02",
+    currency: "USD",
+    total: resources.reduce((sum, { monthly = 0 }) => sum + monthly, 0),
+    resources,
+  });
+  const nat = {
+    stack: "example-network",
+    path: "nat",
+    type: "aws_nat_gateway",
+    monthly: 36.5,
+  };
+  const kms = {
+    stack: "example-data",
+    path: "key",
+    type: "aws_kms_key",
+    monthly: 1,
+  };
+
+  it("sums up the stacks and lists every resource", () => {
+    const markdown = toMarkdown(report([nat, kms]));
+
+    expect(markdown).toContain("## Estimated monthly cost: $37.50");
+    expect(markdown).toContain("| example-network | $36.50 |");
+    expect(markdown).toContain(
+      "| example-data | key | aws_kms_key | $1.00 |  |"
+    );
+    expect(markdown).not.toContain("### Changes");
+  });
+
+  it("shows the difference to a baseline", () => {
+    const markdown = toMarkdown(
+      report([{ ...nat, monthly: 73 }]),
+      report([nat, kms])
+    );
+
+    expect(markdown).toContain("## Estimated monthly cost: $73.00 (+$35.50)");
+    expect(markdown).toContain(
+      "| example-network | nat | aws_nat_gateway | changed | +$36.50 |"
+    );
+    expect(markdown).toContain(
+      "| example-data | key | aws_kms_key | removed | -$1.00 |"
+    );
+  });
+
+  it("tells when nothing cost relevant changed", () => {
+    expect(toMarkdown(report([nat]), report([nat]))).toContain(
+      "No cost relevant changes."
+    );
+  });
+});
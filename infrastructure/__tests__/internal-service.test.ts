@@ -0,0 +1,90 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import "cdktf/lib/testing/adapters/jest";
+import { TerraformStack, Testing } from "cdktf";
+import { AwsProvider } from "@cdktf/provider-aws/lib/provider";
+import { EcsService } from "@cdktf/provider-aws/lib/ecs-service";
+import { EcsTaskDefinition } from "@cdktf/provider-aws/lib/ecs-task-definition";
+import { SecurityGroupRule } from "@cdktf/provider-aws/lib/security-group-rule";
+import { ServiceDiscoveryPrivateDnsNamespace } from "@cdktf/provider-aws/lib/service-discovery-private-dns-namespace";
+import { ServiceDiscoveryService } from "@cdktf/provider-aws/lib/service-discovery-service";
+import { staging } from "../config";
+import { InternalService } from "../internal-service";
+
+function internalService(port?: number) {
+  const stack = new TerraformStack(Testing.app(), "test");
+  new AwsProvider(stack, "aws", { region: "us-east-1" });
+  const namespace = new ServiceDiscoveryPrivateDnsNamespace(
+    stack,
+    "namespace",
+    { name: "staging.internal", vpc: "vpc-123" }
+  );
+  const task = new EcsTaskDefinition(stack, "task", {
+    family: "staging-internal-api",
+    containerDefinitions: "[]",
+  });
+  const service = new InternalService(
+    stack,
+    "api",
+    {
+      clusterId: "cluster",
+      task,
+      desiredCount: 2,
+      namespace,
+      vpcId: "vpc-123",
+      subnets: ["subnet-a", "subnet-b"],
+      capacityProviderStrategy: [{ capacityProvider: "FARGATE", weight: 1 }],
+      port,
+      securityGroups: ["sg-database-clients"],
+    },
+    staging
+  );
+  return { stack, service };
+}
+
+describe("InternalService", () => {
+  it("registers every task in the namespace", () => {
+    const { stack } = internalService();
+    const synthesized = Testing.synth(stack);
+
+    expect(synthesized).toHaveResourceWithProperties(ServiceDiscoveryService, {
+      name: "api",
+      dns_config: {
+        namespace_id:
+          "${aws_service_discovery_private_dns_namespace.namespace.id}",
+        dns_records: [{ type: "A", ttl: 10 }],
+        routing_policy: "MULTIVALUE",
+      },
+    });
+    expect(synthesized).toHaveResourceWithProperties(EcsService, {
+      name: "api",
+      desired_count: 2,
+    });
+    const [ecsService] = Object.values(
+      JSON.parse(synthesized).resource.aws_ecs_service
+    ) as { service_registries: { registry_arn: string } }[];
+    expect(ecsService.service_registries.registry_arn).toMatch(
+      /^\$\{aws_service_discovery_service\.api_discovery_\w+\.arn\}$/
+    );
+  });
+
+  it("only allows declared callers", () => {
+    const { stack, service } = internalService(8080);
+    expect(Testing.synth(stack)).not.toHaveResource(SecurityGroupRule);
+
+    service.allowFrom("backend", "sg-backend");
+    expect(Testing.synth(stack)).toHaveResourceWithProperties(
+      SecurityGroupRule,
+      {
+        type: "ingress",
+        protocol: "TCP",
+        from_port: 8080,
+        to_port: 8080,
+        source_security_group_id: "sg-backend",
+      }
+    );
+  });
+});
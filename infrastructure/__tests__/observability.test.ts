@@ -0,0 +1,61 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import "cdktf/lib/testing/adapters/jest";
+import { TerraformStack, Testing } from "cdktf";
+import { AwsProvider } from "@cdktf/provider-aws/lib/provider";
+import { CloudwatchMetricAlarm } from "@cdktf/provider-aws/lib/cloudwatch-metric-alarm";
+import { EcsCluster } from "@cdktf/provider-aws/lib/ecs-cluster";
+import { EcsService } from "@cdktf/provider-aws/lib/ecs-service";
+import { Lb } from "@cdktf/provider-aws/lib/lb";
+import { LbTargetGroup } from "@cdktf/provider-aws/lib/lb-target-group";
+import { staging } from "../config";
+import { Observability } from "../observability";
+
+function observability() {
+  const stack = new TerraformStack(Testing.app(), "test");
+  new AwsProvider(stack, "aws", { region: "us-east-1" });
+  const cluster = new EcsCluster(stack, "cluster", { name: "cluster" });
+  new Observability(
+    stack,
+    "monitoring",
+    {
+      lb: new Lb(stack, "lb", { name: "lb" }),
+      cluster,
+      services: [
+        {
+          name: "backend",
+          service: new EcsService(stack, "service", {
+            name: "backend",
+            cluster: cluster.id,
+          }),
+          targetGroups: [new LbTargetGroup(stack, "tg", { name: "tg" })],
+        },
+      ],
+      databaseIdentifier: "db",
+    },
+    staging
+  );
+  return Testing.synth(stack);
+}
+
+describe("Observability", () => {
+  it("alarms on the 5xx rate even if only one of the counts has datapoints", () => {
+    expect(observability()).toHaveResourceWithProperties(
+      CloudwatchMetricAlarm,
+      {
+        alarm_name: "staging-monitoring-alb-5xx-rate",
+        treat_missing_data: "notBreaching",
+        metric_query: expect.arrayContaining([
+          expect.objectContaining({
+            id: "rate",
+            expression: "100 * (FILL(target, 0) + FILL(elb, 0)) / requests",
+            return_data: true,
+          }),
+        ]),
+      }
+    );
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { Aspects, TerraformHclModule, TerraformStack, Testing } from "cdktf";
+import { AwsProvider } from "@cdktf/provider-aws/lib/provider";
+import { DbInstance } from "@cdktf/provider-aws/lib/db-instance";
+import { IamPolicy } from "@cdktf/provider-aws/lib/iam-policy";
+import { S3Bucket } from "@cdktf/provider-aws/lib/s3-bucket";
+import { S3BucketServerSideEncryptionConfigurationA } from "@cdktf/provider-aws/lib/s3-bucket-server-side-encryption-configuration";
+import { SecurityGroup } from "@cdktf/provider-aws/lib/security-group";
+import { SecurityGroupRule } from "@cdktf/provider-aws/lib/security-group-rule";
+import { VpcSecurityGroupIngressRule } from "@cdktf/provider-aws/lib/vpc-security-group-ingress-rule";
+import { PolicyDocument, ServiceRole } from "../iam";
+import {
+  EncryptedBuckets,
+  EncryptedDatabases,
+  NoWildcardIamActions,
+  NoWildcardIamResources,
+  NoWorldOpenIngress,
+  PolicyException,
+  PolicyRule,
+  PolicyValidation,
+  RequiredTags,
+} from "../policies";
+
+const SEVERITIES: Record<string, string> = {
+  "@cdktf/error": "error",
+  "@cdktf/warn": "warning",
+};
+
+// Synthesizes a stack with the given resources and returns the annotations of the validation, e.g. "error sg: [rule] message"
+function validate(
+  rules: PolicyRule[],
+  define: (stack: TerraformStack) => void,
+  exceptions: PolicyException[] = []
+) {
+  const stack = new TerraformStack(Testing.app(), "test");
+  new AwsProvider(stack, "aws", { region: "us-east-1" });
+  define(stack);
+  Aspects.of(stack).add(new PolicyValidation(rules, exceptions));
+  Testing.synth(stack);
+
+  return stack.node
+    .findAll()
+    .map((node) =>
+      node.node.metadata
+        .filter(({ type }) => SEVERITIES[type])
+        .map(
+          ({ type, data }) =>
+            `${SEVERITIES[type]} ${node.node.path.slice(
+              "test/".length
+            )}: ${data}`
+        )
+    )
+    .reduce((all, messages) => all.concat(messages), [] as string[]);
+}
+
+const allowAll = (actions: string[], resources: string[]) =>
+  new PolicyDocument().allow(actions, resources).toJson();
+
+describe("NoWorldOpenIngress", () => {
+  const rules = [new NoWorldOpenIngress()];
+
+  it("reports inline ingress open to the internet", () => {
+    expect(
+      validate(rules, (stack) => {
+        new SecurityGroup(stack, "sg", {
+          ingress: [
+            {
+              fromPort: 443,
+              toPort: 443,
+              protocol: "TCP",
+              cidrBlocks: ["0.0.0.0/0"],
+            },
+          ],
+        });
+      })
+    ).toEqual([
+      "error sg: [no-world-open-ingress] Ingress on ports 443-443 is open to the internet",
+    ]);
+  });
+
+  it("accepts inline ingress without CIDR blocks", () => {
+    expect(
+      validate(rules, (stack) => {
+        new SecurityGroup(stack, "sg", {
+          ingress: [
+            {
+              fromPort: 80,
+              toPort: 80,
+              protocol: "TCP",
+              securityGroups: ["sg-123"],
+            },
+          ],
+        });
+      })
+    ).toEqual([]);
+  });
+
+  it("reports security group rules open to the internet", () => {
+    expect(
+      validate(rules, (stack) => {
+        new SecurityGroupRule(stack, "ipv6", {
+          type: "ingress",
+          securityGroupId: "sg-123",
+          protocol: "TCP",
+          fromPort: 22,
+          toPort: 22,
+          ipv6CidrBlocks: ["::/0"],
+        });
+        new SecurityGroupRule(stack, "egress", {
+          type: "egress",
+          securityGroupId: "sg-123",
+          protocol: "-1",
+          fromPort: 0,
+          toPort: 0,
+          cidrBlocks: ["0.0.0.0/0"],
+        });
+        new VpcSecurityGroupIngressRule(stack, "vpc-rule", {
+          securityGroupId: "sg-123",
+          ipProtocol: "tcp",
+          fromPort: 5432,
+          toPort: 5432,
+          cidrIpv4: "0.0.0.0/0",
+        });
+      })
+    ).toEqual([
+      "error ipv6: [no-world-open-ingress] Ingress on ports 22-22 is open to the internet",
+      "error vpc-rule: [no-world-open-ingress] Ingress on ports 5432-5432 is open to the internet",
+    ]);
+  });
+
+  it("skips exceptions", () => {
+    expect(
+      validate(
+        rules,
+        (stack) => {
+          new SecurityGroup(stack, "sg", {
+            ingress: [
+              {
+                fromPort: 443,
+                toPort: 443,
+                protocol: "TCP",
+                cidrBlocks: ["0.0.0.0/0"],
+              },
+            ],
+          });
+        },
+        [{ rule: "no-world-open-ingress", path: "sg", reason: "public" }]
+      )
+    ).toEqual([]);
+  });
+});
+
+describe("RequiredTags", () => {
+  it("reports missing tags of resources that support them", () => {
+    expect(
+      validate([new RequiredTags(["team", "environment"])], (stack) => {
+        new S3Bucket(stack, "untagged", {});
+        new S3Bucket(stack, "tagged", {
+          tags: { team: "cdk", environment: "test" },
+        });
+        new S3BucketServerSideEncryptionConfigurationA(stack, "encryption", {
+          bucket: "bucket",
+          rule: [
+            { applyServerSideEncryptionByDefault: { sseAlgorithm: "AES256" } },
+          ],
+        });
+      })
+    ).toEqual([
+      "warning untagged: [required-tags] Missing tags: team, environment",
+    ]);
+  });
+});
+
+describe("NoWildcardIamActions", () => {
+  const rules = [new NoWildcardIamActions()];
+
+  it("reports wildcard actions", () => {
+    expect(
+      validate(rules, (stack) => {
+        new IamPolicy(stack, "policy", {
+          policy: allowAll(["s3:*"], ["arn:aws:s3:::bucket"]),
+        });
+      })
+    ).toEqual([
+      'error policy: [no-wildcard-iam-actions] Policy allows all actions via "s3:*"',
+    ]);
+  });
+
+  it("checks inline policies of roles, including empty ones", () => {
+    expect(
+      validate(rules, (stack) => {
+        new ServiceRole(stack, "empty", {
+          name: "empty",
+          service: "ecs-tasks.amazonaws.com",
+          tags: {},
+        });
+        new ServiceRole(stack, "admin", {
+          name: "admin",
+          service: "ecs-tasks.amazonaws.com",
+          tags: {},
+        }).grant(["*"], ["arn:aws:s3:::bucket"]);
+      })
+    ).toEqual([
+      'error admin: [no-wildcard-iam-actions] Policy allows all actions via "*"',
+    ]);
+  });
+});
+
+describe("NoWildcardIamResources", () => {
+  it("reports statements on all resources", () => {
+    expect(
+      validate([new NoWildcardIamResources()], (stack) => {
+        new IamPolicy(stack, "policy", {
+          policy: allowAll(["s3:GetObject"], ["*"]),
+        });
+        new IamPolicy(stack, "scoped", {
+          policy: allowAll(["s3:GetObject"], ["arn:aws:s3:::bucket/*"]),
+        });
+      })
+    ).toEqual([
+      "warning policy: [no-wildcard-iam-resources] Policy allows s3:GetObject on all resources",
+    ]);
+  });
+
+  it("accepts actions that can't be scoped to a resource", () => {
+    expect(
+      validate([new NoWildcardIamResources()], (stack) => {
+        new IamPolicy(stack, "ecr-token", {
+          policy: allowAll(["ecr:GetAuthorizationToken"], ["*"]),
+        });
+        new IamPolicy(stack, "mixed", {
+          policy: allowAll(
+            ["ecr:GetAuthorizationToken", "ecr:BatchGetImage"],
+            ["*"]
+          ),
+        });
+      })
+    ).toEqual([
+      "warning mixed: [no-wildcard-iam-resources] Policy allows ecr:BatchGetImage on all resources",
+    ]);
+  });
+});
+
+describe("EncryptedDatabases", () => {
+  const rules = [new EncryptedDatabases()];
+
+  it("requires the RDS module to encrypt explicitly", () => {
+    expect(
+      validate(rules, (stack) => {
+        new TerraformHclModule(stack, "unencrypted", {
+          source: "terraform-aws-modules/rds/aws",
+          variables: { identifier: "unencrypted" },
+        });
+        new TerraformHclModule(stack, "encrypted", {
+          source: "terraform-aws-modules/rds/aws",
+          variables: { identifier: "encrypted", storage_encrypted: true },
+        });
+      })
+    ).toEqual([
+      "error unencrypted: [encrypted-databases] Database storage is not encrypted",
+    ]);
+  });
+
+  it("requires DB instances to encrypt explicitly", () => {
+    expect(
+      validate(rules, (stack) => {
+        new DbInstance(stack, "unencrypted", { instanceClass: "db.t3.micro" });
+        new DbInstance(stack, "encrypted", {
+          instanceClass: "db.t3.micro",
+          storageEncrypted: true,
+        });
+      })
+    ).toEqual([
+      "error unencrypted: [encrypted-databases] Database storage is not encrypted",
+    ]);
+  });
+});
+
+describe("EncryptedBuckets", () => {
+  it("requires an encryption configuration referencing the bucket", () => {
+    expect(
+      validate([new EncryptedBuckets()], (stack) => {
+        new S3Bucket(stack, "plain", {});
+        const encrypted = new S3Bucket(stack, "encrypted", {});
+        new S3BucketServerSideEncryptionConfigurationA(stack, "encryption", {
+          bucket: encrypted.id,
+          rule: [
+            { applyServerSideEncryptionByDefault: { sseAlgorithm: "AES256" } },
+          ],
+        });
+      })
+    ).toEqual([
+      "error plain: [encrypted-buckets] Bucket has no server side encryption configured",
+    ]);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as zlib from "zlib";
+import { createHash } from "crypto";
+import { Construct } from "constructs";
+import { App, TerraformAsset } from "cdktf";
+import { sync as glob } from "glob";
+import { lookup as mime } from "mime-types";
+import { CloudfrontFunction } from "@cdktf/provider-aws/lib/cloudfront-function";
+import { S3Bucket } from "@cdktf/provider-aws/lib/s3-bucket";
+import { Resource } from "@cdktf/provider-null/lib/resource";
+import { EnvironmentConfig } from "./config";
+
+export type Precompression = "gzip" | "br";
+
+export interface AssetDeploymentOptions {
+  // Files matching this are never changed under the same name, e.g. "main.3f2a1b9c.js"
+  immutable?: RegExp;
+  // Stores a compressed copy next to each text file so that CloudFront does not have to compress them on every cache miss,
+  // see encodingFunction
+  precompress?: Precompression;
+  // Removes objects from the bucket that are no longer part of the build, defaults to true
+  prune?: boolean;
+}
+
+interface UploadGroup {
+  contentType: string;
+  cacheControl: string;
+  contentEncoding?: Precompression;
+  files: string[];
+}
+
+// Bundlers put a content hash of at least 8 hex characters into the names of everything but the entry points
+const HASHED_FILE = /\.[0-9a-f]{8,}\./;
+const COMPRESSIBLE = /^text\/|javascript|json|xml|svg/;
+
+const SUFFIXES: Record<Precompression, string> = { gzip: ".gz", br: ".br" };
+
+const CACHE_CONTROL = {
+  immutable: "public, max-age=31536000, immutable",
+  // browsers have to ask every time, otherwise they keep using the old entry point and its old assets
+  html: "no-cache",
+  other: "public, max-age=3600",
+};
+
+const quote = (value: string) => `'${value.replace(/'/g, "'\\''")}'`;
+
+// Uploads a build directory with a couple of aws cli calls instead of one Terraform resource per file
+export class AssetDeployment extends Construct {
+  // Changes whenever a file or its metadata does, e.g. to invalidate caches
+  contentHash: string;
+  upload: Resource;
+  // Only set with precompress, serves the compressed copies to clients that accept them. Has to run on viewer requests.
+  encodingFunction?: CloudfrontFunction;
+
+  constructor(
+    scope: Construct,
+    name: string,
+    bucket: S3Bucket,
+    sourcePath: string,
+    options: AssetDeploymentOptions,
+    config: EnvironmentConfig
+  ) {
+    super(scope, name);
+    const { immutable = HASHED_FILE, precompress, prune = true } = options;
+
+    // With prune an empty directory would empty the bucket, e.g. if the build was forgotten
+    const files = fs.existsSync(sourcePath)
+      ? glob("**/*", { cwd: sourcePath, nodir: true, dot: true })
+      : [];
+    if (!files.length) {
+      throw new Error(
+        `${sourcePath} is missing or empty, build it before synthesizing`
+      );
+    }
+
+    // Staging the compressed copies keeps the build output untouched, it lives in the outdir
+    // until the asset gets copied and is replaced by the next synth
+    const stagingPath = path.join(
+      App.of(this).outdir,
+      "staging",
+      this.node.addr
+    );
+    fs.rmSync(stagingPath, { recursive: true, force: true });
+    const groups: Record<string, UploadGroup> = {};
+    const addToGroup = (f: string, group: Omit<UploadGroup, "files">) => {
+      const key = [
+        group.contentType,
+        group.cacheControl,
+        group.contentEncoding,
+      ].join("|");
+      groups[key] = groups[key] || { ...group, files: [] };
+      groups[key].files.push(f);
+    };
+    // e.g. ".js", the function only has to look at requests for them
+    const compressedExtensions = new Set<string>();
+
+    files.forEach((f) => {
+      const contentType = mime(f) || "application/octet-stream";
+      const cacheControl = immutable.test(path.basename(f))
+        ? CACHE_CONTROL.immutable
+        : contentType === "text/html"
+        ? CACHE_CONTROL.html
+        : CACHE_CONTROL.other;
+
+      const content = fs.readFileSync(path.join(sourcePath, f));
+      const target = path.join(stagingPath, f);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, content);
+      addToGroup(f, { contentType, cacheControl });
+
+      // The copy keeps the content type, only its encoding differs
+      if (precompress && COMPRESSIBLE.test(contentType)) {
+        fs.writeFileSync(
+          target + SUFFIXES[precompress],
+          precompress === "gzip"
+            ? zlib.gzipSync(content, { level: 9 })
+            : zlib.brotliCompressSync(content)
+        );
+        addToGroup(f + SUFFIXES[precompress], {
+          contentType,
+          cacheControl,
+          contentEncoding: precompress,
+        });
+        compressedExtensions.add(path.extname(f));
+      }
+    });
+
+    const asset = new TerraformAsset(this, `content`, {
+      path: stagingPath,
+    });
+
+    // The asset hash only covers the content, new headers have to be uploaded as well
+    const metadataHash = createHash("sha256")
+      .update(
+        JSON.stringify(
+          Object.keys(groups)
+            .sort()
+            .map((key) => [key, groups[key].files.sort()])
+        )
+      )
+      .digest("hex");
+    this.contentHash = `${asset.assetHash}-${metadataHash.slice(0, 16)}`;
+
+    const destination = `s3://${bucket.bucket}`;
+    // The html entry points go last, so that they never reference assets that are not uploaded yet
+    const commands = Object.keys(groups)
+      .map((key) => groups[key])
+      .sort(
+        (a, b) =>
+          Number(a.cacheControl === CACHE_CONTROL.html) -
+          Number(b.cacheControl === CACHE_CONTROL.html)
+      )
+      .map((group) =>
+        [
+          `aws s3 cp . ${destination} --recursive --exclude "*"`,
+          ...group.files.map((f) => `--include ${quote(f)}`),
+          `--content-type ${quote(group.contentType)}`,
+          `--cache-control ${quote(group.cacheControl)}`,
+          group.contentEncoding
+            ? `--content-encoding ${group.contentEncoding}`
+            : "",
+        ]
+          .filter(Boolean)
+          .join(" ")
+      );
+
+    if (prune) {
+      // Everything was uploaded above, so this only deletes objects that are not part of the build anymore
+      commands.push(`aws s3 sync . ${destination} --delete --size-only`);
+    }
+
+    this.upload = new Resource(this, `upload`, {
+      dependsOn: [bucket],
+      triggers: { content: this.contentHash, bucket: bucket.bucket },
+      provisioners: [
+        {
+          type: "local-exec",
+          workingDir: asset.path,
+          environment: { AWS_REGION: config.region },
+          command: commands.join(" && "),
+        },
+      ],
+    });
+
+    if (precompress) {
+      this.encodingFunction = new CloudfrontFunction(this, `encoding`, {
+        name: `${config.name}-${name}-encoding`,
+        comment: `Serves the ${precompress} copies of ${name}`,
+        runtime: "cloudfront-js-1.0",
+        publish: true,
+        // the distribution must not ask for copies that are not uploaded yet
+        dependsOn: [this.upload],
+        code: encodingFunctionCode(
+          precompress,
+          Array.from(compressedExtensions).sort()
+        ),
+      });
+    }
+  }
+}
+
+// Rewrites e.g. /static/main.js to /static/main.js.gz if the client accepts the encoding. The rewritten path is part of
+// the cache key, so CloudFront caches both copies. Unknown paths still end up at the SPA fallback, as their copy is missing as well.
+function encodingFunctionCode(encoding: Precompression, extensions: string[]) {
+  return `var SUFFIX = ${JSON.stringify(SUFFIXES[encoding])};
+var EXTENSIONS = ${JSON.stringify(extensions)};
+var ACCEPTED = ${new RegExp(`(^|,)\\s*${encoding}\\s*(;|,|$)`)};
+
+function handler(event) {
+  var request = event.request;
+  var acceptEncoding = request.headers["accept-encoding"];
+  var extension = request.uri.slice(request.uri.lastIndexOf("."));
+  if (
+    acceptEncoding &&
+    ACCEPTED.test(acceptEncoding.value) &&
+    request.uri.lastIndexOf(".") > request.uri.lastIndexOf("/") &&
+    EXTENSIONS.indexOf(extension) !== -1
+  ) {
+    request.uri += SUFFIX;
+  }
+  return request;
+}
+`;
+}
@@ -0,0 +1,228 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { Construct } from "constructs";
+import { CloudwatchMetricAlarm } from "@cdktf/provider-aws/lib/cloudwatch-metric-alarm";
+import { CodedeployApp } from "@cdktf/provider-aws/lib/codedeploy-app";
+import { CodedeployDeploymentConfig } from "@cdktf/provider-aws/lib/codedeploy-deployment-config";
+import { CodedeployDeploymentGroup } from "@cdktf/provider-aws/lib/codedeploy-deployment-group";
+import {
+  EcsService,
+  EcsServiceCapacityProviderStrategy,
+} from "@cdktf/provider-aws/lib/ecs-service";
+import { EcsTaskDefinition } from "@cdktf/provider-aws/lib/ecs-task-definition";
+import { IamRole } from "@cdktf/provider-aws/lib/iam-role";
+import { Lb } from "@cdktf/provider-aws/lib/lb";
+import { LbListener } from "@cdktf/provider-aws/lib/lb-listener";
+import { LbTargetGroup } from "@cdktf/provider-aws/lib/lb-target-group";
+import { Resource } from "@cdktf/provider-null/lib/resource";
+import { EnvironmentConfig, TrafficShiftingConfig } from "./config";
+import { assumeRolePolicy } from "./iam";
+
+export interface BlueGreenDeploymentProps {
+  service: EcsService;
+  task: EcsTaskDefinition;
+  clusterName: string;
+  containerName: string;
+  containerPort: number;
+  // The new tasks are placed like the ones of the service
+  capacityProviderStrategy: EcsServiceCapacityProviderStrategy[];
+  lb: Lb;
+  // The service starts on the first one, CodeDeploy alternates between them
+  targetGroups: [LbTargetGroup, LbTargetGroup];
+  productionListener: LbListener;
+  testListener: LbListener;
+  trafficShifting: TrafficShiftingConfig;
+  terminationWaitMinutes?: number;
+}
+
+// Shifts traffic between two target groups with CodeDeploy whenever the task definition changes
+export class BlueGreenDeployment extends Construct {
+  constructor(
+    scope: Construct,
+    name: string,
+    props: BlueGreenDeploymentProps,
+    config: EnvironmentConfig
+  ) {
+    super(scope, name);
+    const tags = config.tags;
+    const { trafficShifting } = props;
+    const prefix = `${config.name}-${name}`;
+
+    const app = new CodedeployApp(this, `app`, {
+      name: prefix,
+      computePlatform: "ECS",
+      tags,
+    });
+
+    const role = new IamRole(this, `role`, {
+      name: `${prefix}-codedeploy`,
+      tags,
+      managedPolicyArns: ["arn:aws:iam::aws:policy/AWSCodeDeployRoleForECS"],
+      // this role shall only be used by CodeDeploy
+      assumeRolePolicy: assumeRolePolicy("codedeploy.amazonaws.com"),
+    });
+
+    const {
+      type,
+      percentage = 10,
+      intervalMinutes = type === "canary" ? 5 : 1,
+    } = trafficShifting;
+    // Deployment configs can't be changed, every setting is part of the name so that a change creates a new one
+    const deploymentConfig = new CodedeployDeploymentConfig(this, `config`, {
+      deploymentConfigName:
+        type === "all-at-once"
+          ? `${prefix}-${type}`
+          : `${prefix}-${type}-${percentage}pct-${intervalMinutes}min`,
+      computePlatform: "ECS",
+      trafficRoutingConfig:
+        type === "all-at-once"
+          ? { type: "AllAtOnce" }
+          : type === "canary"
+          ? {
+              type: "TimeBasedCanary",
+              timeBasedCanary: { percentage, interval: intervalMinutes },
+            }
+          : {
+              type: "TimeBasedLinear",
+              timeBasedLinear: { percentage, interval: intervalMinutes },
+            },
+      // the deployment group has to switch to the new one before the old one can go
+      lifecycle: { createBeforeDestroy: true },
+    });
+
+    // Whichever target group currently receives the new tasks, errors on it stop the deployment
+    const alarms: CloudwatchMetricAlarm[] = [];
+    props.targetGroups.forEach((targetGroup, i) => {
+      const dimensions = {
+        LoadBalancer: props.lb.arnSuffix,
+        TargetGroup: targetGroup.arnSuffix,
+      };
+
+      alarms.push(
+        new CloudwatchMetricAlarm(this, `target-5xx-${i}`, {
+          alarmName: `${prefix}-target-5xx-${i}`,
+          alarmDescription: `The ${props.containerName} tasks answer with server errors`,
+          namespace: "AWS/ApplicationELB",
+          metricName: "HTTPCode_Target_5XX_Count",
+          dimensions,
+          statistic: "Sum",
+          period: 60,
+          evaluationPeriods: 1,
+          threshold: 5,
+          comparisonOperator: "GreaterThanOrEqualToThreshold",
+          treatMissingData: "notBreaching",
+          tags,
+        }),
+        new CloudwatchMetricAlarm(this, `unhealthy-hosts-${i}`, {
+          alarmName: `${prefix}-unhealthy-hosts-${i}`,
+          alarmDescription: `The ${props.containerName} tasks fail their health check`,
+          namespace: "AWS/ApplicationELB",
+          metricName: "UnHealthyHostCount",
+          dimensions,
+          statistic: "Maximum",
+          period: 60,
+          evaluationPeriods: 2,
+          threshold: 0,
+          comparisonOperator: "GreaterThanThreshold",
+          treatMissingData: "notBreaching",
+          tags,
+        })
+      );
+    });
+
+    const deploymentGroup = new CodedeployDeploymentGroup(this, `group`, {
+      appName: app.name,
+      deploymentGroupName: prefix,
+      deploymentConfigName: deploymentConfig.deploymentConfigName,
+      serviceRoleArn: role.arn,
+      tags,
+      deploymentStyle: {
+        deploymentOption: "WITH_TRAFFIC_CONTROL",
+        deploymentType: "BLUE_GREEN",
+      },
+      blueGreenDeploymentConfig: {
+        deploymentReadyOption: {
+          actionOnTimeout: "CONTINUE_DEPLOYMENT",
+        },
+        terminateBlueInstancesOnDeploymentSuccess: {
+          action: "TERMINATE",
+          terminationWaitTimeInMinutes: props.terminationWaitMinutes ?? 5,
+        },
+      },
+      ecsService: {
+        clusterName: props.clusterName,
+        serviceName: props.service.name,
+      },
+      loadBalancerInfo: {
+        targetGroupPairInfo: {
+          prodTrafficRoute: { listenerArns: [props.productionListener.arn] },
+          testTrafficRoute: { listenerArns: [props.testListener.arn] },
+          targetGroup: props.targetGroups.map(({ name }) => ({ name })),
+        },
+      },
+      autoRollbackConfiguration: {
+        enabled: true,
+        events: ["DEPLOYMENT_FAILURE", "DEPLOYMENT_STOP_ON_ALARM"],
+      },
+      alarmConfiguration: {
+        enabled: true,
+        alarms: alarms.map(({ alarmName }) => alarmName),
+      },
+    });
+
+    // ECS ignores task definition changes of CodeDeploy controlled services, so we start the deployment ourselves
+    const appSpec = {
+      version: 1,
+      Resources: [
+        {
+          TargetService: {
+            Type: "AWS::ECS::Service",
+            Properties: {
+              TaskDefinition: props.task.arn,
+              LoadBalancerInfo: {
+                ContainerName: props.containerName,
+                ContainerPort: props.containerPort,
+              },
+              CapacityProviderStrategy: props.capacityProviderStrategy.map(
+                ({ capacityProvider, weight, base }) => ({
+                  CapacityProvider: capacityProvider,
+                  Weight: weight,
+                  Base: base,
+                })
+              ),
+            },
+          },
+        },
+      ],
+    };
+
+    new Resource(this, `deployment`, {
+      dependsOn: [deploymentGroup, props.service],
+      triggers: { taskDefinition: props.task.arn },
+      provisioners: [
+        {
+          type: "local-exec",
+          environment: {
+            AWS_REGION: config.region,
+            DEPLOYMENT: JSON.stringify({
+              applicationName: app.name,
+              deploymentGroupName: deploymentGroup.deploymentGroupName,
+              revision: {
+                revisionType: "AppSpecContent",
+                appSpecContent: { content: JSON.stringify(appSpec) },
+              },
+            }),
+          },
+          // waits for the deployment so that a failed rollout fails the apply
+          command: [
+            `DEPLOYMENT_ID=$(aws deploy create-deployment --cli-input-json "$DEPLOYMENT" --query deploymentId --output text)`,
+            `aws deploy wait deployment-successful --deployment-id "$DEPLOYMENT_ID"`,
+          ].join(" && "),
+        },
+      ],
+    });
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { Construct } from "constructs";
+import { Aspects, TerraformStack } from "cdktf";
+import { AwsProvider } from "@cdktf/provider-aws/lib/provider";
+import { DynamodbTable } from "@cdktf/provider-aws/lib/dynamodb-table";
+import { S3Bucket } from "@cdktf/provider-aws/lib/s3-bucket";
+import { S3BucketPublicAccessBlock } from "@cdktf/provider-aws/lib/s3-bucket-public-access-block";
+import { S3BucketServerSideEncryptionConfigurationA } from "@cdktf/provider-aws/lib/s3-bucket-server-side-encryption-configuration";
+import { S3BucketVersioningA } from "@cdktf/provider-aws/lib/s3-bucket-versioning";
+import { StateBackendConfig } from "./config";
+import { defaultPolicies, PolicyValidation } from "./policies";
+
+// Creates the state bucket and lock table for all other stacks, its own state stays local.
+// Deploy it once per account before any environment: cdktf deploy example-bootstrap
+export class BootstrapStack extends TerraformStack {
+  constructor(scope: Construct, name: string, backend: StateBackendConfig) {
+    super(scope, name);
+    const tags = backend.tags;
+
+    new AwsProvider(this, "aws", {
+      region: backend.region,
+    });
+
+    Aspects.of(this).add(
+      new PolicyValidation(defaultPolicies(Object.keys(tags)))
+    );
+
+    const bucket = new S3Bucket(this, "state-bucket", {
+      bucket: backend.bucket,
+      tags,
+      // losing the state means losing track of every resource
+      lifecycle: { preventDestroy: true },
+    });
+
+    // Lets us restore an older state if an apply went wrong
+    new S3BucketVersioningA(this, "state-bucket-versioning", {
+      bucket: bucket.id,
+      versioningConfiguration: { status: "Enabled" },
+    });
+
+    // The state contains secrets, e.g. the database password
+    new S3BucketServerSideEncryptionConfigurationA(
+      this,
+      "state-bucket-encryption",
+      {
+        bucket: bucket.id,
+        rule: [
+          {
+            applyServerSideEncryptionByDefault: { sseAlgorithm: "AES256" },
+          },
+        ],
+      }
+    );
+
+    new S3BucketPublicAccessBlock(this, "state-bucket-public-access-block", {
+      bucket: bucket.id,
+      blockPublicAcls: true,
+      blockPublicPolicy: true,
+      ignorePublicAcls: true,
+      restrictPublicBuckets: true,
+    });
+
+    // Terraform expects the lock key to be called LockID
+    new DynamodbTable(this, "lock-table", {
+      name: backend.lockTable,
+      billingMode: "PAY_PER_REQUEST",
+      hashKey: "LockID",
+      attribute: [{ name: "LockID", type: "S" }],
+      serverSideEncryption: { enabled: true },
+      tags,
+      lifecycle: { preventDestroy: true },
+    });
+  }
+}
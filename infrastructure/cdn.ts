@@ -0,0 +1,303 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { Construct } from "constructs";
+import { ITerraformDependable } from "cdktf";
+import { CloudfrontCachePolicy } from "@cdktf/provider-aws/lib/cloudfront-cache-policy";
+import {
+  CloudfrontDistribution,
+  CloudfrontDistributionOrigin,
+} from "@cdktf/provider-aws/lib/cloudfront-distribution";
+import { CloudfrontResponseHeadersPolicy } from "@cdktf/provider-aws/lib/cloudfront-response-headers-policy";
+import { DataAwsCloudfrontCachePolicy } from "@cdktf/provider-aws/lib/data-aws-cloudfront-cache-policy";
+import { DataAwsCloudfrontOriginRequestPolicy } from "@cdktf/provider-aws/lib/data-aws-cloudfront-origin-request-policy";
+import { S3Bucket } from "@cdktf/provider-aws/lib/s3-bucket";
+import { S3BucketLifecycleConfiguration } from "@cdktf/provider-aws/lib/s3-bucket-lifecycle-configuration";
+import { S3BucketOwnershipControls } from "@cdktf/provider-aws/lib/s3-bucket-ownership-controls";
+import { S3BucketPublicAccessBlock } from "@cdktf/provider-aws/lib/s3-bucket-public-access-block";
+import { S3BucketServerSideEncryptionConfigurationA } from "@cdktf/provider-aws/lib/s3-bucket-server-side-encryption-configuration";
+import { Resource } from "@cdktf/provider-null/lib/resource";
+import { EnvironmentConfig } from "./config";
+
+export type CachePolicy =
+  // e.g. "Managed-CachingOptimized" or "Managed-CachingDisabled"
+  | { managed: string }
+  // Cookies and headers are never part of the cache key, use an origin request policy to forward them
+  | {
+      minTtl: number;
+      defaultTtl: number;
+      maxTtl: number;
+      queryStrings: boolean;
+    };
+
+export interface CdnBehavior {
+  originId: string;
+  cachePolicy: CachePolicy;
+  // Name of a managed origin request policy, e.g. "Managed-AllViewerExceptHostHeader"
+  originRequestPolicy?: string;
+  // Lets POST, PUT, PATCH and DELETE requests through to the origin
+  allowWrites?: boolean;
+  // CloudFront function that may rewrite the request, e.g. AssetDeployment.encodingFunction
+  viewerRequestFunctionArn?: string;
+}
+
+export interface CdnPathBehavior extends CdnBehavior {
+  // e.g. "/backend/*"
+  pathPattern: string;
+}
+
+export interface CdnProps {
+  comment: string;
+  origins: CloudfrontDistributionOrigin[];
+  defaultBehavior: CdnBehavior;
+  // Evaluated in order, the first matching path pattern wins
+  behaviors?: CdnPathBehavior[];
+  defaultRootObject?: string;
+  // Serves this page for unknown paths so that a single page app can route them, e.g. "/index.html".
+  // Note that this also replaces 403 and 404 responses of every other origin.
+  spaFallback?: string;
+  aliases?: string[];
+  // Has to be issued in us-east-1, without it we use the default CloudFront certificate
+  certificateArn?: string;
+  contentSecurityPolicy?: string;
+  // ARN of a WAFv2 web ACL with CLOUDFRONT scope
+  webAclId?: string;
+  // Invalidates every path once the trigger changes, e.g. the hash of the frontend assets
+  invalidation?: { trigger: string; dependsOn: ITerraformDependable[] };
+}
+
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+const ALL_METHODS = [...READ_METHODS, "POST", "PUT", "PATCH", "DELETE"];
+
+export class Cdn extends Construct {
+  distribution: CloudfrontDistribution;
+  // Only set if access logs are enabled for the environment
+  logBucket?: S3Bucket;
+  private prefix: string;
+  private managedCachePolicies: Record<string, DataAwsCloudfrontCachePolicy> =
+    {};
+  private originRequestPolicies: Record<
+    string,
+    DataAwsCloudfrontOriginRequestPolicy
+  > = {};
+
+  constructor(
+    scope: Construct,
+    name: string,
+    props: CdnProps,
+    config: EnvironmentConfig
+  ) {
+    super(scope, name);
+    const tags = config.tags;
+    this.prefix = `${config.name}-${name}`;
+
+    const responseHeadersPolicy = new CloudfrontResponseHeadersPolicy(
+      this,
+      `security-headers`,
+      {
+        name: `${this.prefix}-security-headers`,
+        comment: `Security headers for ${props.comment}`,
+        securityHeadersConfig: {
+          strictTransportSecurity: {
+            accessControlMaxAgeSec: 63072000, // two years, as recommended for the preload list
+            includeSubdomains: true,
+            preload: true,
+            override: true,
+          },
+          contentSecurityPolicy: {
+            contentSecurityPolicy:
+              props.contentSecurityPolicy ??
+              "default-src 'self'; img-src 'self' data:; style-src 'self' 'unsafe-inline'; frame-ancestors 'none'",
+            override: true,
+          },
+          frameOptions: { frameOption: "DENY", override: true },
+          contentTypeOptions: { override: true },
+          referrerPolicy: {
+            referrerPolicy: "strict-origin-when-cross-origin",
+            override: true,
+          },
+        },
+      }
+    );
+
+    if (config.frontend.accessLogs) {
+      this.logBucket = this.createLogBucket(config);
+    }
+
+    const cacheBehavior = (id: string, behavior: CdnBehavior) => ({
+      targetOriginId: behavior.originId,
+      viewerProtocolPolicy: "redirect-to-https", // ensure we serve https
+      allowedMethods: behavior.allowWrites ? ALL_METHODS : READ_METHODS,
+      cachedMethods: ["GET", "HEAD"],
+      compress: true,
+      cachePolicyId: this.cachePolicyId(id, behavior.cachePolicy),
+      originRequestPolicyId: behavior.originRequestPolicy
+        ? this.originRequestPolicyId(behavior.originRequestPolicy)
+        : undefined,
+      responseHeadersPolicyId: responseHeadersPolicy.id,
+      functionAssociation: behavior.viewerRequestFunctionArn
+        ? [
+            {
+              eventType: "viewer-request",
+              functionArn: behavior.viewerRequestFunctionArn,
+            },
+          ]
+        : undefined,
+    });
+
+    this.distribution = new CloudfrontDistribution(this, "cf", {
+      comment: props.comment,
+      tags,
+      enabled: true,
+      priceClass: config.frontend.priceClass,
+      // origins describe different entities that can serve traffic
+      origin: props.origins,
+      defaultCacheBehavior: cacheBehavior("default", props.defaultBehavior),
+      orderedCacheBehavior: (props.behaviors || []).map((behavior) => ({
+        ...cacheBehavior(behavior.pathPattern, behavior),
+        pathPattern: behavior.pathPattern,
+      })),
+      defaultRootObject: props.defaultRootObject,
+      customErrorResponse: props.spaFallback
+        ? [403, 404].map((errorCode) => ({
+            errorCode,
+            responseCode: 200,
+            responsePagePath: props.spaFallback,
+            errorCachingMinTtl: 10,
+          }))
+        : undefined,
+      restrictions: { geoRestriction: { restrictionType: "none" } },
+      aliases: props.aliases,
+      webAclId: props.webAclId,
+      viewerCertificate: props.certificateArn
+        ? {
+            acmCertificateArn: props.certificateArn,
+            sslSupportMethod: "sni-only",
+            minimumProtocolVersion: "TLSv1.2_2021",
+          }
+        : { cloudfrontDefaultCertificate: true }, // we use the default SSL Certificate
+      loggingConfig: this.logBucket
+        ? {
+            bucket: this.logBucket.bucketDomainName,
+            prefix: "cloudfront/",
+            includeCookies: false,
+          }
+        : undefined,
+    });
+
+    if (props.invalidation) {
+      // There is no Terraform resource for invalidations, so we create them once the content changed
+      new Resource(this, `invalidation`, {
+        dependsOn: [this.distribution, ...props.invalidation.dependsOn],
+        triggers: { content: props.invalidation.trigger },
+        provisioners: [
+          {
+            type: "local-exec",
+            command: `aws cloudfront create-invalidation --distribution-id ${this.distribution.id} --paths "/*"`,
+          },
+        ],
+      });
+    }
+  }
+
+  get domainName() {
+    return this.distribution.domainName;
+  }
+
+  get hostedZoneId() {
+    return this.distribution.hostedZoneId;
+  }
+
+  get arn() {
+    return this.distribution.arn;
+  }
+
+  private cachePolicyId(id: string, policy: CachePolicy): string {
+    if ("managed" in policy) {
+      if (!this.managedCachePolicies[policy.managed]) {
+        this.managedCachePolicies[policy.managed] =
+          new DataAwsCloudfrontCachePolicy(
+            this,
+            `cache-policy-${policy.managed}`,
+            { name: policy.managed }
+          );
+      }
+      return this.managedCachePolicies[policy.managed].id;
+    }
+
+    const slug = id.replace(/[^a-zA-Z0-9]+/g, "-").replace(/^-|-$/g, "");
+    return new CloudfrontCachePolicy(this, `cache-policy-${slug}`, {
+      name: `${this.prefix}-${slug}`,
+      minTtl: policy.minTtl,
+      defaultTtl: policy.defaultTtl,
+      maxTtl: policy.maxTtl,
+      parametersInCacheKeyAndForwardedToOrigin: {
+        cookiesConfig: { cookieBehavior: "none" },
+        headersConfig: { headerBehavior: "none" },
+        queryStringsConfig: {
+          queryStringBehavior: policy.queryStrings ? "all" : "none",
+        },
+        enableAcceptEncodingGzip: true,
+        enableAcceptEncodingBrotli: true,
+      },
+    }).id;
+  }
+
+  private originRequestPolicyId(name: string): string {
+    if (!this.originRequestPolicies[name]) {
+      this.originRequestPolicies[name] =
+        new DataAwsCloudfrontOriginRequestPolicy(
+          this,
+          `origin-request-policy-${name}`,
+          { name }
+        );
+    }
+    return this.originRequestPolicies[name].id;
+  }
+
+  private createLogBucket(config: EnvironmentConfig) {
+    const bucket = new S3Bucket(this, `logs`, {
+      bucketPrefix: `${this.prefix}-logs-`,
+      tags: config.tags,
+    });
+
+    // CloudFront delivers standard logs via ACLs, so the bucket needs them enabled
+    new S3BucketOwnershipControls(this, `logs-ownership`, {
+      bucket: bucket.id,
+      rule: { objectOwnership: "BucketOwnerPreferred" },
+    });
+
+    new S3BucketPublicAccessBlock(this, `logs-public-access-block`, {
+      bucket: bucket.id,
+      blockPublicAcls: true,
+      blockPublicPolicy: true,
+      ignorePublicAcls: true,
+      restrictPublicBuckets: true,
+    });
+
+    new S3BucketServerSideEncryptionConfigurationA(this, `logs-encryption`, {
+      bucket: bucket.id,
+      rule: [
+        {
+          applyServerSideEncryptionByDefault: { sseAlgorithm: "AES256" },
+        },
+      ],
+    });
+
+    new S3BucketLifecycleConfiguration(this, `logs-lifecycle`, {
+      bucket: bucket.id,
+      rule: [
+        {
+          id: "expire-access-logs",
+          status: "Enabled",
+          filter: { prefix: "cloudfront/" },
+          expiration: { days: 90 },
+        },
+      ],
+    });
+
+    return bucket;
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+// Generates the docker-compose.yml for local development from the same definitions we deploy to ECS:
+//   npm run compose && docker compose up
+import * as fs from "fs";
+import * as path from "path";
+import { getEnvironments } from "./config";
+import {
+  backendContainer,
+  backendMigrationContainer,
+  ContainerOptions,
+  DATABASE_NAME,
+  PostgresConnection,
+  postgresSettings,
+} from "./services";
+
+const ROOT = path.resolve(__dirname, "..");
+const COMPOSE_FILE = path.join(ROOT, "docker-compose.yml");
+const BACKEND_DIR = path.join(ROOT, "application/backend");
+const FRONTEND_DIR = path.join(ROOT, "application/frontend");
+// The frontend falls back to this port if no API endpoint is configured
+const LOCAL_BACKEND_PORT = 4000;
+// Only ever used on our own machines
+const LOCAL_PASSWORD = "local";
+
+type Yaml = string | number | boolean | undefined | Yaml[] | YamlMap;
+interface YamlMap {
+  [key: string]: Yaml;
+}
+
+// Enough YAML for a compose file: maps, lists of scalars and quoted scalars
+function toYaml(map: YamlMap, indent = ""): string[] {
+  return Object.entries(map)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      if (Array.isArray(value)) {
+        return value.length
+          ? [
+              `${indent}${key}:`,
+              ...value.map((item) => `${indent}  - ${JSON.stringify(item)}`),
+            ]
+          : [`${indent}${key}: []`];
+      }
+      if (typeof value === "object") {
+        return Object.keys(value).length
+          ? [`${indent}${key}:`, ...toYaml(value, `${indent}  `)]
+          : [`${indent}${key}: {}`];
+      }
+      return [`${indent}${key}: ${JSON.stringify(value)}`];
+    })
+    .reduce((lines, entry) => lines.concat(entry), []);
+}
+
+// Translates our container options into a compose service, the counterpart of the ECS container definition
+function composeService(options: ContainerOptions, service: YamlMap): YamlMap {
+  if (Object.keys(options.secrets || {}).length) {
+    throw new Error(
+      "Secrets Manager is not available locally, pass plain values"
+    );
+  }
+  const { healthCheck } = options;
+  const seconds = (value?: number) =>
+    value === undefined ? undefined : `${value}s`;
+
+  return {
+    ...service,
+    command: options.command,
+    environment: Object.entries(options.env || {})
+      .filter(([, value]) => value !== undefined)
+      .reduce((env, [name, value]) => ({ ...env, [name]: value }), {}),
+    healthcheck: healthCheck && {
+      test: healthCheck.command,
+      interval: seconds(healthCheck.interval),
+      timeout: seconds(healthCheck.timeout),
+      retries: healthCheck.retries,
+      start_period: seconds(healthCheck.startPeriod),
+    },
+    stop_grace_period: seconds(options.stopTimeout),
+  };
+}
+
+export function dockerCompose(): string {
+  // Locally we mirror staging
+  const [config] = getEnvironments();
+  const postgres = postgresSettings(config.database, DATABASE_NAME);
+  const connection: PostgresConnection = {
+    host: "postgres",
+    port: String(postgres.port),
+    user: postgres.user,
+    database: postgres.database,
+    password: LOCAL_PASSWORD,
+  };
+  const backend = backendContainer(connection);
+  const relative = (dir: string) => `./${path.relative(ROOT, dir)}`;
+
+  const services: YamlMap = {
+    postgres: {
+      image: `postgres:${postgres.engineVersion}-alpine`,
+      // the same parameters as our RDS parameter group
+      command: [
+        "postgres",
+        ...Object.entries(postgres.parameters)
+          .map(([name, value]) => ["-c", `${name}=${value}`])
+          .reduce((args, arg) => args.concat(arg), []),
+      ],
+      environment: {
+        POSTGRES_USER: postgres.user,
+        POSTGRES_DB: postgres.database,
+        POSTGRES_PASSWORD: LOCAL_PASSWORD,
+      },
+      ports: [`${postgres.port}:${postgres.port}`],
+      volumes: ["postgres-data:/var/lib/postgresql/data"],
+      healthcheck: {
+        test: [
+          "CMD-SHELL",
+          `pg_isready -U ${postgres.user} -d ${postgres.database}`,
+        ],
+        interval: "5s",
+        retries: 10,
+      },
+    },
+    "backend-migrate": composeService(backendMigrationContainer(connection), {
+      build: relative(BACKEND_DIR),
+      depends_on: { postgres: { condition: "service_healthy" } },
+    }),
+    backend: composeService(backend, {
+      build: relative(BACKEND_DIR),
+      ports: (backend.ports || []).map(
+        (port) => `${LOCAL_BACKEND_PORT}:${port}`
+      ),
+      depends_on: {
+        "backend-migrate": { condition: "service_completed_successfully" },
+      },
+    }),
+    // The dev server with hot reloading, in AWS the built files are served by CloudFront
+    frontend: {
+      // react-scripts 4 does not build with the OpenSSL of newer Node versions
+      image: "node:16-alpine",
+      working_dir: "/app",
+      command: ["sh", "-c", "npm install && npm start"],
+      environment: {
+        // in AWS CloudFront routes /backend to the load balancer
+        REACT_APP_API_ENDPOINT: `http://localhost:${LOCAL_BACKEND_PORT}/backend`,
+      },
+      ports: ["3000:3000"],
+      volumes: [
+        `${relative(FRONTEND_DIR)}:/app`,
+        // keeps the dependencies of the container apart from the ones on our machine
+        "frontend-node-modules:/app/node_modules",
+      ],
+      depends_on: { backend: { condition: "service_started" } },
+    },
+  };
+
+  return [
+    "# Generated by infrastructure/compose.ts, run `npm run compose` in infrastructure to update it",
+    ...toYaml({
+      services,
+      volumes: { "postgres-data": {}, "frontend-node-modules": {} },
+    }),
+    "",
+  ].join("\n");
+}
+
+if (require.main === module) {
+  fs.writeFileSync(COMPOSE_FILE, dockerCompose());
+  console.log(`Wrote ${path.relative(process.cwd(), COMPOSE_FILE)}`);
+}
@@ -0,0 +1,444 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+export interface NetworkConfig {
+  cidr: string;
+  // Availability zone suffixes, e.g. ["a", "b", "c"], combined with the region
+  azs: string[];
+  // We need one CIDR block per availability zone for each subnet type
+  privateSubnets: string[];
+  publicSubnets: string[];
+  databaseSubnets: string[];
+  // Using a single NAT Gateway will save us some money, coming with the cost of less redundancy
+  singleNatGateway: boolean;
+  // Interface endpoints cost money per AZ, but save NAT traffic for image pulls, logs and secrets
+  vpcEndpoints: boolean;
+}
+
+export interface DatabaseConfig {
+  instanceClass: string;
+  // in GB
+  allocatedStorage: number;
+  // Storage autoscaling grows the disk up to this size in GB, disabled if not set
+  maxAllocatedStorage?: number;
+  // e.g. "14.7", defaults to "14.1"
+  engineVersion?: string;
+  // A standby in another availability zone takes over if the primary fails
+  multiAz?: boolean;
+  deletionProtection?: boolean;
+  // in days, 0 disables automated backups, defaults to 7
+  backupRetentionDays?: number;
+  // Takes a snapshot when the instance gets deleted
+  finalSnapshot?: boolean;
+  // Encrypts with our own KMS key instead of the AWS managed one
+  customerManagedKey?: boolean;
+  // Not available for the smallest instance classes
+  performanceInsights?: boolean;
+  // Otherwise changes are applied in the next maintenance window
+  applyImmediately?: boolean;
+  // Overrides of our default parameters, e.g. { log_min_duration_statement: "500" }
+  parameters?: Record<string, string>;
+  // Read-only copies the backend uses for queries
+  readReplicas?: number;
+  // Rotate the password stored in Secrets Manager every n days, running tasks then read it from there
+  passwordRotationDays?: number;
+  // How long a deployment waits for the migration task, defaults to 30
+  migrationTimeoutMinutes?: number;
+}
+
+export interface ScheduledScalingConfig {
+  // cron expressions, e.g. "cron(0 22 * * ? *)"
+  scaleInSchedule: string;
+  scaleOutSchedule: string;
+  timezone: string;
+  // capacity between scale-in and scale-out, outside of it the regular limits apply
+  minCapacity: number;
+  maxCapacity: number;
+}
+
+export interface AutoscalingConfig {
+  minCapacity: number;
+  maxCapacity: number;
+  // Target tracking values, each one that is set creates its own policy
+  targetCpuUtilization?: number;
+  targetMemoryUtilization?: number;
+  targetRequestsPerTarget?: number;
+  // Reduce the capacity at night when nobody is using the application. The schedule then owns the capacity, changed
+  // limits only apply with the next scale-out in the morning.
+  nightly?: ScheduledScalingConfig;
+}
+
+export interface TrafficShiftingConfig {
+  // canary shifts once after the interval, linear shifts by percentage every interval
+  type: "canary" | "linear" | "all-at-once";
+  percentage?: number;
+  intervalMinutes?: number;
+}
+
+export type DeploymentConfig =
+  // ECS replaces the tasks and rolls back if the new ones don't get healthy
+  | { type: "rolling" }
+  // CodeDeploy shifts traffic to a second set of tasks and rolls back on alarms
+  | {
+      type: "blue-green";
+      trafficShifting: TrafficShiftingConfig;
+      // Port of the listener that reaches the new tasks before they get production traffic, defaults to 8080
+      testListenerPort?: number;
+      // How long the old tasks are kept around after a successful deployment, defaults to 5
+      terminationWaitMinutes?: number;
+    };
+
+export interface CapacityProviderStrategyItem {
+  // "EC2" is the Auto Scaling group of the cluster, see ClusterConfig
+  capacityProvider: "FARGATE" | "FARGATE_SPOT" | "EC2";
+  // Share of the tasks beyond the base, e.g. 1 FARGATE and 3 FARGATE_SPOT runs three quarters on spot
+  weight: number;
+  // Tasks placed on this provider before the weights apply, only one provider of a strategy may have a base
+  base?: number;
+}
+
+export interface Ec2CapacityConfig {
+  // e.g. "t4g.small", has to match the architecture
+  instanceType: string;
+  architecture: "X86_64" | "ARM64";
+  minSize: number;
+  maxSize: number;
+  // ECS scales the group to keep this percentage of it in use, defaults to 100
+  targetCapacity?: number;
+}
+
+export interface ClusterConfig {
+  // Adds an Auto Scaling group as "EC2" capacity provider
+  ec2?: Ec2CapacityConfig;
+  // Used by services without their own strategy, defaults to FARGATE only
+  defaultCapacityProviderStrategy?: CapacityProviderStrategyItem[];
+}
+
+export interface ServiceConfig {
+  cpu: number;
+  memory: number;
+  // Graviton (ARM64) is cheaper, but not available on FARGATE_SPOT, defaults to X86_64
+  cpuArchitecture?: "X86_64" | "ARM64";
+  // Defaults to the strategy of the cluster
+  capacityProviderStrategy?: CapacityProviderStrategyItem[];
+  // Initial number of tasks, autoscaling takes over from there if configured
+  desiredCount: number;
+  autoscaling?: AutoscalingConfig;
+  // Tasks run in the private subnets and reach the internet via NAT, unless this is set
+  publicSubnets?: boolean;
+  // defaults to a rolling deployment
+  deployment?: DeploymentConfig;
+}
+
+// A schedule expression, e.g. "cron(0 3 * * ? *)" or "rate(1 hour)", or an EventBridge event pattern
+export type JobTrigger =
+  | { schedule: string }
+  | { eventPattern: Record<string, unknown> };
+
+export interface JobConfig {
+  name: string;
+  // Runs in the backend image, e.g. ["node", "src/jobs/cleanup.js"]
+  command: string[];
+  trigger: JobTrigger;
+  cpu: number;
+  memory: number;
+}
+
+// Runs the backend image with another command, other services reach it via <name>.<environment>.internal
+export interface InternalServiceConfig {
+  name: string;
+  // e.g. ["node", "src/worker.js"]
+  command: string[];
+  // The command listens on it, defaults to 80
+  port?: number;
+  cpu: number;
+  memory: number;
+  desiredCount: number;
+  // Defaults to the strategy of the cluster
+  capacityProviderStrategy?: CapacityProviderStrategyItem[];
+  // "backend" or the names of other internal services, nobody else can reach this one
+  callers: string[];
+}
+
+export interface FrontendConfig {
+  // Serve the bucket only through CloudFront instead of as a public S3 website
+  privateBucket: boolean;
+  // "PriceClass_100" only serves from edge locations in North America and Europe
+  priceClass: "PriceClass_100" | "PriceClass_200" | "PriceClass_All";
+  // Writes CloudFront access logs to a separate bucket
+  accessLogs: boolean;
+  // Uploads a compressed copy of every text file, CloudFront serves it to clients that accept the encoding
+  precompress?: "gzip" | "br";
+}
+
+export interface WafConfig {
+  // Requests per IP within 5 minutes, only writes to the backend count
+  writeRateLimit: number;
+  // AWS managed rule groups, e.g. "AWSManagedRulesCommonRuleSet"
+  managedRuleGroups: string[];
+  // CIDR blocks, allowed requests skip all other rules
+  allowedIps: string[];
+  blockedIps: string[];
+  // Matching requests are only counted, e.g. to try out new rules
+  countOnly?: boolean;
+}
+
+export interface MonitoringConfig {
+  // Alarms are sent to these addresses, each of them has to confirm the subscription once
+  emails: string[];
+  // HTTPS endpoints receiving the SNS notifications, e.g. a chat integration
+  webhooks: string[];
+  // Percentage of requests failing with a server error, defaults to 5
+  maxErrorRate?: number;
+  // p95 of the response time in seconds, defaults to 1
+  maxResponseTime?: number;
+  // Depends on the memory of the instance class, defaults to 80
+  maxDbConnections?: number;
+}
+
+export interface LogArchiveConfig {
+  // Days until archived logs move to cheaper storage classes
+  infrequentAccessAfterDays: number;
+  glacierAfterDays: number;
+  // Archived logs are kept forever if not set
+  expireAfterDays?: number;
+}
+
+export interface LoggingConfig {
+  // Days CloudWatch keeps the logs of our tasks, defaults to 30
+  retentionDays?: number;
+  // Routes the logs of our tasks through a FireLens sidecar, which also sends them to an S3 archive
+  archive?: LogArchiveConfig;
+  // CloudWatch Logs filter patterns per metric name, e.g. { Errors: '{ $.level = "error" }' }
+  metricFilters?: Record<string, string>;
+}
+
+export interface DomainConfig {
+  // An existing Route53 hosted zone, e.g. "example.com"
+  zoneName: string;
+  // Served by CloudFront, e.g. "staging.example.com"
+  frontendDomain: string;
+  // Served by the load balancer, CloudFront uses it to reach the backend via HTTPS
+  backendDomain: string;
+}
+
+// Where the Terraform state of all environments lives, see bootstrap.ts
+export interface StateBackendConfig {
+  // S3 bucket names are global, so this has to be unique across all AWS accounts
+  bucket: string;
+  lockTable: string;
+  region: string;
+  tags: Record<string, string>;
+}
+
+export interface EnvironmentConfig {
+  // Short name used to prefix resources that need to be unique within an account
+  name: string;
+  region: string;
+  tags: Record<string, string>;
+  network: NetworkConfig;
+  database: DatabaseConfig;
+  cluster?: ClusterConfig;
+  backend: ServiceConfig;
+  // Periodic or event-driven work with the backend image, e.g. cleaning up old posts
+  jobs?: JobConfig[];
+  internalServices?: InternalServiceConfig[];
+  frontend: FrontendConfig;
+  monitoring: MonitoringConfig;
+  logging?: LoggingConfig;
+  // Without a web application firewall every request reaches CloudFront and the load balancer
+  waf?: WafConfig;
+  // Without a domain we serve via the default CloudFront domain and plain HTTP between CloudFront and the load balancer
+  domain?: DomainConfig;
+}
+
+// Common exploits, known bad inputs and IPs with a bad reputation
+const managedRuleGroups = [
+  "AWSManagedRulesCommonRuleSet",
+  "AWSManagedRulesKnownBadInputsRuleSet",
+  "AWSManagedRulesAmazonIpReputationList",
+];
+
+// The backend logs JSON lines, see application/backend/src/logger.ts
+const ERROR_LOGS = '{ $.level = "error" }';
+
+const defaultTags = {
+  team: "cdk",
+};
+
+export const stateBackend: StateBackendConfig = {
+  bucket: process.env.STATE_BUCKET || "cdktf-docker-on-ecs-terraform-state",
+  lockTable: "cdktf-docker-on-ecs-terraform-locks",
+  region: "us-east-1",
+  tags: { ...defaultTags, environment: "shared", owner: "cdk" },
+};
+
+function network(
+  secondOctet: number,
+  singleNatGateway: boolean,
+  vpcEndpoints: boolean
+): NetworkConfig {
+  const block = (offset: number) =>
+    [1, 2, 3].map((i) => `10.${secondOctet}.${offset + i}.0/24`);
+
+  return {
+    cidr: `10.${secondOctet}.0.0/16`,
+    azs: ["a", "b", "c"],
+    privateSubnets: block(0),
+    publicSubnets: block(100),
+    databaseSubnets: block(200),
+    singleNatGateway,
+    vpcEndpoints,
+  };
+}
+
+export const staging: EnvironmentConfig = {
+  name: "staging",
+  region: "us-east-1",
+  tags: { ...defaultTags, environment: "staging", owner: "dschmidt" },
+  network: network(0, true, false),
+  database: {
+    instanceClass: "db.t3.micro",
+    allocatedStorage: 5,
+    backupRetentionDays: 1,
+    applyImmediately: true,
+  },
+  cluster: {
+    // Interruptions are fine for staging, but we keep one task on regular capacity
+    defaultCapacityProviderStrategy: [
+      { capacityProvider: "FARGATE", weight: 0, base: 1 },
+      { capacityProvider: "FARGATE_SPOT", weight: 1 },
+    ],
+  },
+  backend: {
+    cpu: 256,
+    memory: 512,
+    desiredCount: 1,
+    autoscaling: {
+      minCapacity: 1,
+      maxCapacity: 2,
+      targetCpuUtilization: 70,
+      nightly: {
+        scaleInSchedule: "cron(0 20 ? * MON-FRI *)",
+        scaleOutSchedule: "cron(0 6 ? * MON-FRI *)",
+        timezone: "UTC",
+        minCapacity: 1,
+        maxCapacity: 1,
+      },
+    },
+  },
+  internalServices: [
+    {
+      // The backend API within the VPC, without going through CloudFront and the load balancer
+      name: "api",
+      command: ["node", "src/index.js"],
+      cpu: 256,
+      memory: 512,
+      desiredCount: 1,
+      callers: ["backend"],
+    },
+  ],
+  frontend: {
+    privateBucket: true,
+    priceClass: "PriceClass_100",
+    accessLogs: false,
+  },
+  monitoring: { emails: [], webhooks: [] },
+  logging: {
+    retentionDays: 14,
+    metricFilters: { Errors: ERROR_LOGS },
+  },
+  waf: {
+    writeRateLimit: 500,
+    managedRuleGroups,
+    allowedIps: [],
+    blockedIps: [],
+    countOnly: true,
+  },
+};
+
+export const production: EnvironmentConfig = {
+  name: "production",
+  region: "us-east-1",
+  tags: { ...defaultTags, environment: "production", owner: "cdk" },
+  network: network(1, false, true),
+  database: {
+    instanceClass: "db.t3.medium",
+    allocatedStorage: 20,
+    maxAllocatedStorage: 100,
+    multiAz: true,
+    deletionProtection: true,
+    backupRetentionDays: 14,
+    finalSnapshot: true,
+    customerManagedKey: true,
+    performanceInsights: true,
+    readReplicas: 1,
+    passwordRotationDays: 30,
+  },
+  backend: {
+    cpu: 512,
+    memory: 1024,
+    desiredCount: 2,
+    autoscaling: {
+      minCapacity: 2,
+      maxCapacity: 10,
+      targetCpuUtilization: 60,
+      targetMemoryUtilization: 75,
+      targetRequestsPerTarget: 1000,
+    },
+    deployment: {
+      type: "blue-green",
+      trafficShifting: { type: "canary", percentage: 10, intervalMinutes: 5 },
+    },
+  },
+  frontend: {
+    privateBucket: true,
+    priceClass: "PriceClass_All",
+    accessLogs: true,
+    precompress: "gzip",
+  },
+  monitoring: {
+    emails: [],
+    webhooks: [],
+    maxErrorRate: 1,
+    maxResponseTime: 0.5,
+    maxDbConnections: 150,
+  },
+  logging: {
+    retentionDays: 90,
+    // CloudWatch drops the logs after 90 days, the archive keeps them cheaply for later investigations
+    archive: {
+      infrequentAccessAfterDays: 30,
+      glacierAfterDays: 90,
+      expireAfterDays: 3 * 365,
+    },
+    metricFilters: { Errors: ERROR_LOGS },
+  },
+  waf: {
+    writeRateLimit: 100,
+    managedRuleGroups,
+    allowedIps: [],
+    blockedIps: [],
+  },
+};
+
+// A personal environment for a single developer, enabled by setting PREVIEW_ENVIRONMENT=<your name>
+export function preview(owner: string): EnvironmentConfig {
+  return {
+    ...staging,
+    name: `preview-${owner}`,
+    region: process.env.PREVIEW_REGION || staging.region,
+    tags: { ...defaultTags, environment: "preview", owner },
+  };
+}
+
+export function getEnvironments(): EnvironmentConfig[] {
+  const environments = [staging, production];
+  const previewOwner = process.env.PREVIEW_ENVIRONMENT;
+  if (previewOwner) {
+    environments.push(preview(previewOwner));
+  }
+  return environments;
+}
@@ -0,0 +1,453 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+// Estimates the monthly cost of a synthesized app, run it after `cdktf synth`:
+//   node cost-report.js [cdktf.out] [baseline cdktf.out]
+// With a baseline (e.g. the synth output of the main branch) the report shows the difference.
+import * as fs from "fs";
+import * as path from "path";
+import * as prices from "./prices.json";
+
+type RegionPrices = (typeof prices.regions)["us-east-1"];
+
+export interface ResourceCost {
+  stack: string;
+  // Construct path within the stack, e.g. "cluster/backend-task"
+  path: string;
+  // The resource type or the module source
+  type: string;
+  // Not set if the cost only depends on usage, e.g. traffic or stored data
+  monthly?: number;
+  note?: string;
+}
+
+export interface CostReport {
+  priceTableVersion: string;
+  currency: string;
+  total: number;
+  resources: ResourceCost[];
+}
+
+interface Estimate {
+  monthly?: number;
+  note?: string;
+}
+
+// A resource or module of the synthesized JSON, cdktf adds the construct path as metadata
+type Block = Record<string, unknown> & {
+  "//"?: { metadata?: { path?: string } };
+};
+
+interface StackJson {
+  provider?: { aws?: { region?: string; alias?: string }[] };
+  resource?: Record<string, Record<string, Block>>;
+  module?: Record<string, Block & { source: string }>;
+}
+
+interface Manifest {
+  stacks: Record<string, { name: string; synthesizedStackPath: string }>;
+}
+
+// The attributes the estimators look at, unset ones are written as null
+interface LoadBalancerAttributes {
+  load_balancer_type?: string | null;
+}
+
+interface EcsServiceAttributes {
+  task_definition?: string | null;
+  desired_count?: number | null;
+}
+
+interface TaskDefinitionAttributes {
+  cpu?: string | null;
+  memory?: string | null;
+}
+
+interface VpcEndpointAttributes {
+  vpc_endpoint_type?: string | null;
+  // a reference if the subnets are created by another resource or module
+  subnet_ids?: string[] | string | null;
+}
+
+// Shared by aws_db_instance and the RDS module
+interface DatabaseAttributes {
+  instance_class: string;
+  // Read replicas take it from their source
+  allocated_storage?: string | number | null;
+  multi_az?: boolean | null;
+  replicate_source_db?: string | null;
+}
+
+interface MetricAlarmAttributes {
+  metric_query?: { metric?: unknown }[] | null;
+}
+
+interface WebAclAttributes {
+  rule?: unknown[] | null;
+}
+
+interface VpcModuleAttributes {
+  enable_nat_gateway?: boolean | null;
+  single_nat_gateway?: boolean | null;
+  azs?: string[] | null;
+}
+
+type Estimator = (
+  attributes: Block,
+  prices: RegionPrices,
+  stack: StackJson
+) => Estimate;
+
+// Estimators only get the blocks of their own type, so they can rely on its attributes
+function estimator<A>(
+  estimate: (attributes: A, prices: RegionPrices, stack: StackJson) => Estimate
+): Estimator {
+  return (attributes, p, stack) =>
+    estimate(attributes as unknown as A, p, stack);
+}
+
+const HOURS = prices.hoursPerMonth;
+// Lists built from references, e.g. the subnets of the VPC, are only known after apply
+const ASSUMED_AZS = 3;
+
+const USAGE_BASED = [
+  "aws_cloudfront_distribution",
+  "aws_cloudwatch_log_group",
+  "aws_dynamodb_table",
+  "aws_ecr_repository",
+  "aws_kinesis_firehose_delivery_stream",
+  "aws_route53_record",
+  "aws_s3_bucket",
+  "aws_serverlessapplicationrepository_cloudformation_stack",
+  "aws_sns_topic",
+  "aws_sqs_queue",
+];
+
+// Finds a resource by a reference like "${aws_ecs_task_definition.backend-task.arn}", also within functions
+function referenced(stack: StackJson, type: string, reference: string) {
+  const match = new RegExp(`\\b${type}\\.([^.}]+)\\.`).exec(reference);
+  return match ? stack.resource?.[type]?.[match[1]] : undefined;
+}
+
+// The source of a read replica, e.g. "${tostring(module.db_db_1A2B3C4D.db_instance_id)}" or "${aws_db_instance.primary.identifier}"
+function sourceDatabase(stack: StackJson, reference: string) {
+  const module = /\bmodule\.([^.}]+)\./.exec(reference);
+  const source = module
+    ? stack.module?.[module[1]]
+    : referenced(stack, "aws_db_instance", reference);
+  return source as DatabaseAttributes | undefined;
+}
+
+function rdsInstance(
+  database: DatabaseAttributes,
+  p: RegionPrices,
+  stack: StackJson
+): Estimate {
+  const instanceClass = database.instance_class;
+  const hourly = (p.rdsInstanceHour as Record<string, number>)[instanceClass];
+  if (hourly === undefined) {
+    return { note: `no price for ${instanceClass}` };
+  }
+
+  const source = database.replicate_source_db
+    ? sourceDatabase(stack, database.replicate_source_db)
+    : undefined;
+  const storage = Number(
+    database.allocated_storage ?? source?.allocated_storage
+  );
+  const multiAz = database.multi_az === true;
+  // the standby costs as much as the primary
+  const instances = multiAz ? 2 : 1;
+  const notes = [
+    multiAz ? "Multi-AZ" : undefined,
+    database.replicate_source_db ? "read replica" : undefined,
+    // e.g. a replica of a database in another stack
+    Number.isFinite(storage) ? undefined : "storage not priced",
+  ].filter((note) => note);
+
+  return {
+    monthly:
+      instances *
+      (hourly * HOURS +
+        (Number.isFinite(storage) ? storage * p.rdsStorageGbMonth : 0)),
+    note: notes.length ? notes.join(", ") : undefined,
+  };
+}
+
+const RESOURCE_ESTIMATORS: Record<string, Estimator> = {
+  aws_nat_gateway: (_, p) => ({
+    monthly: (p.natGatewayHour + p.publicIpv4Hour) * HOURS,
+    note: "plus data processing",
+  }),
+  aws_eip: (_, p) => ({ monthly: p.publicIpv4Hour * HOURS }),
+  aws_lb: estimator<LoadBalancerAttributes>((attributes, p) =>
+    attributes.load_balancer_type === "application"
+      ? {
+          monthly:
+            (p.applicationLoadBalancerHour + p.loadBalancerCapacityUnitHour) *
+            HOURS,
+          note: "including one capacity unit",
+        }
+      : { note: "only application load balancers are priced" }
+  ),
+  aws_ecs_service: estimator<EcsServiceAttributes>((attributes, p, stack) => {
+    const task = referenced(
+      stack,
+      "aws_ecs_task_definition",
+      attributes.task_definition || ""
+    ) as TaskDefinitionAttributes | undefined;
+    if (!task) {
+      return { note: "task definition not found" };
+    }
+    const count = attributes.desired_count ?? 1;
+    const vcpu = Number(task.cpu) / 1024;
+    const memory = Number(task.memory) / 1024;
+    return {
+      monthly:
+        count * (vcpu * p.fargateVcpuHour + memory * p.fargateGbHour) * HOURS,
+      note: `${count} task(s) on Fargate, autoscaling changes this`,
+    };
+  }),
+  aws_vpc_endpoint: estimator<VpcEndpointAttributes>((attributes, p) => {
+    if (attributes.vpc_endpoint_type !== "Interface") {
+      return { monthly: 0, note: "gateway endpoints are free" };
+    }
+    const azs = Array.isArray(attributes.subnet_ids)
+      ? attributes.subnet_ids.length
+      : ASSUMED_AZS;
+    return {
+      monthly: azs * p.interfaceEndpointHour * HOURS,
+      note: `${azs} availability zones, plus data processing`,
+    };
+  }),
+  aws_db_instance: estimator(rdsInstance),
+  aws_secretsmanager_secret: (_, p) => ({ monthly: p.secretMonth }),
+  aws_kms_key: (_, p) => ({ monthly: p.kmsKeyMonth }),
+  // every metric of a metric math alarm is billed
+  aws_cloudwatch_metric_alarm: estimator<MetricAlarmAttributes>(
+    (attributes, p) => ({
+      monthly:
+        p.alarmMonth *
+        Math.max(
+          1,
+          (attributes.metric_query || []).filter((query) => query.metric).length
+        ),
+    })
+  ),
+  aws_cloudwatch_dashboard: (_, p) => ({
+    monthly: p.dashboardMonth,
+    note: "the first three dashboards are free",
+  }),
+  aws_wafv2_web_acl: estimator<WebAclAttributes>((attributes, p) => ({
+    monthly: p.webAclMonth + (attributes.rule || []).length * p.webAclRuleMonth,
+    note: "plus requests",
+  })),
+};
+
+// Modules are estimated as a whole, they do not show up as resources in the JSON
+const MODULE_ESTIMATORS: Record<string, Estimator> = {
+  "terraform-aws-modules/vpc/aws": estimator<VpcModuleAttributes>(
+    (attributes, p) => {
+      if (!attributes.enable_nat_gateway) {
+        return { monthly: 0 };
+      }
+      const natGateways = attributes.single_nat_gateway
+        ? 1
+        : (attributes.azs || []).length;
+      return {
+        monthly: natGateways * (p.natGatewayHour + p.publicIpv4Hour) * HOURS,
+        note: `${natGateways} NAT gateway(s), plus data processing`,
+      };
+    }
+  ),
+  "terraform-aws-modules/rds/aws": estimator(rdsInstance),
+};
+
+function constructPath(stack: string, block: Block, fallback: string) {
+  const fullPath = block["//"]?.metadata?.path;
+  return fullPath ? fullPath.slice(stack.length + 1) : fallback;
+}
+
+function estimate(
+  estimator: Estimator | undefined,
+  type: string,
+  attributes: Block,
+  regionPrices: RegionPrices | undefined,
+  stack: StackJson
+): Estimate {
+  if (!regionPrices) {
+    return { note: "no prices for this region" };
+  }
+  if (estimator) {
+    return estimator(attributes, regionPrices, stack);
+  }
+  return USAGE_BASED.includes(type) ? { note: "usage based" } : { monthly: 0 };
+}
+
+export function buildReport(outdir: string): CostReport {
+  const manifest: Manifest = JSON.parse(
+    fs.readFileSync(path.join(outdir, "manifest.json"), "utf8")
+  );
+  const resources: ResourceCost[] = [];
+
+  Object.values(manifest.stacks).forEach((entry) => {
+    const stackName = entry.name;
+    const stack: StackJson = JSON.parse(
+      fs.readFileSync(path.join(outdir, entry.synthesizedStackPath), "utf8")
+    );
+    const region = (stack.provider?.aws || []).find(
+      ({ alias }) => !alias
+    )?.region;
+    const regionPrices = region
+      ? (prices.regions as Record<string, RegionPrices>)[region]
+      : undefined;
+
+    Object.entries(stack.resource || {}).forEach(([type, blocks]) =>
+      Object.entries(blocks).forEach(([id, attributes]) =>
+        resources.push({
+          stack: stackName,
+          path: constructPath(stackName, attributes, id),
+          type,
+          ...estimate(
+            RESOURCE_ESTIMATORS[type],
+            type,
+            attributes,
+            regionPrices,
+            stack
+          ),
+        })
+      )
+    );
+
+    Object.entries(stack.module || {}).forEach(([id, attributes]) => {
+      const { source } = attributes;
+      resources.push({
+        stack: stackName,
+        path: constructPath(stackName, attributes, id),
+        type: source,
+        ...estimate(
+          MODULE_ESTIMATORS[source],
+          source,
+          attributes,
+          regionPrices,
+          stack
+        ),
+      });
+    });
+  });
+
+  return {
+    priceTableVersion: prices.version,
+    currency: prices.currency,
+    total: resources.reduce((sum, { monthly = 0 }) => sum + monthly, 0),
+    resources,
+  };
+}
+
+const money = (value: number | undefined) =>
+  value === undefined ? "-" : `$${value.toFixed(2)}`;
+const signed = (value: number) =>
+  `${value < 0 ? "-" : "+"}$${Math.abs(value).toFixed(2)}`;
+const key = ({ stack, path, type }: ResourceCost) => `${stack}|${path}|${type}`;
+
+export function toMarkdown(report: CostReport, baseline?: CostReport) {
+  const lines = [
+    `## Estimated monthly cost: ${money(report.total)}${
+      baseline ? ` (${signed(report.total - baseline.total)})` : ""
+    }`,
+    "",
+    `Prices in ${report.currency} from price table ${report.priceTableVersion}. Traffic, requests and stored data are not included.`,
+    "",
+  ];
+
+  if (baseline) {
+    const before = new Map(baseline.resources.map((r) => [key(r), r]));
+    const after = new Map(report.resources.map((r) => [key(r), r]));
+    const changes = [
+      ...report.resources.map((r) => ({ r, old: before.get(key(r)) })),
+      ...baseline.resources
+        .filter((r) => !after.has(key(r)))
+        .map((old) => ({ r: undefined, old })),
+    ]
+      .map(({ r, old }) => ({
+        resource: (r || old)!,
+        change: !old ? "added" : !r ? "removed" : "changed",
+        delta: (r?.monthly ?? 0) - (old?.monthly ?? 0),
+      }))
+      .filter(({ change, delta }) => change !== "changed" || delta !== 0);
+
+    lines.push("### Changes", "");
+    if (changes.length) {
+      lines.push(
+        "| Stack | Path | Type | Change | Monthly |",
+        "|---|---|---|---|---|"
+      );
+      changes.forEach(({ resource, change, delta }) =>
+        lines.push(
+          `| ${resource.stack} | ${resource.path} | ${
+            resource.type
+          } | ${change} | ${signed(delta)} |`
+        )
+      );
+    } else {
+      lines.push("No cost relevant changes.");
+    }
+    lines.push("");
+  }
+
+  const stacks = Array.from(new Set(report.resources.map((r) => r.stack)));
+  lines.push("### Stacks", "", "| Stack | Monthly |", "|---|---|");
+  stacks.forEach((stack) =>
+    lines.push(
+      `| ${stack} | ${money(
+        report.resources
+          .filter((r) => r.stack === stack)
+          .reduce((sum, { monthly = 0 }) => sum + monthly, 0)
+      )} |`
+    )
+  );
+
+  lines.push(
+    "",
+    "<details><summary>Resources</summary>",
+    "",
+    "| Stack | Path | Type | Monthly | Note |",
+    "|---|---|---|---|---|"
+  );
+  report.resources.forEach((r) =>
+    lines.push(
+      `| ${r.stack} | ${r.path} | ${r.type} | ${money(r.monthly)} | ${
+        r.note || ""
+      } |`
+    )
+  );
+  lines.push("", "</details>", "");
+
+  return lines.join("\n");
+}
+
+if (require.main === module) {
+  const [outdir = "cdktf.out", baselineOutdir] = process.argv.slice(2);
+  const report = buildReport(outdir);
+  const baseline = baselineOutdir ? buildReport(baselineOutdir) : undefined;
+  const markdown = toMarkdown(report, baseline);
+
+  fs.writeFileSync(
+    path.join(outdir, "cost-report.json"),
+    JSON.stringify(
+      baseline
+        ? {
+            ...report,
+            baselineTotal: baseline.total,
+            difference: report.total - baseline.total,
+          }
+        : report,
+      null,
+      2
+    )
+  );
+  fs.writeFileSync(path.join(outdir, "cost-report.md"), markdown);
+  console.log(markdown);
+}
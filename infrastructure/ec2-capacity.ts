@@ -0,0 +1,117 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { Construct } from "constructs";
+import { Fn } from "cdktf";
+import { AutoscalingGroup } from "@cdktf/provider-aws/lib/autoscaling-group";
+import { DataAwsSsmParameter } from "@cdktf/provider-aws/lib/data-aws-ssm-parameter";
+import { EcsCapacityProvider } from "@cdktf/provider-aws/lib/ecs-capacity-provider";
+import { IamInstanceProfile } from "@cdktf/provider-aws/lib/iam-instance-profile";
+import { IamRole } from "@cdktf/provider-aws/lib/iam-role";
+import { LaunchTemplate } from "@cdktf/provider-aws/lib/launch-template";
+import { Ec2CapacityConfig, EnvironmentConfig } from "./config";
+import { assumeRolePolicy } from "./iam";
+
+export interface Ec2CapacityProps {
+  clusterName: string;
+  subnets: string[];
+  securityGroups: string[];
+}
+
+// AWS publishes the current ECS optimized Amazon Linux image per architecture
+const AMI_PARAMETERS = {
+  X86_64: "/aws/service/ecs/optimized-ami/amazon-linux-2/recommended/image_id",
+  ARM64:
+    "/aws/service/ecs/optimized-ami/amazon-linux-2/arm64/recommended/image_id",
+};
+
+// An Auto Scaling group that registers its instances with our cluster, ECS scales it to fit the tasks
+export class Ec2Capacity extends Construct {
+  capacityProvider: EcsCapacityProvider;
+
+  constructor(
+    scope: Construct,
+    name: string,
+    props: Ec2CapacityProps,
+    capacity: Ec2CapacityConfig,
+    config: EnvironmentConfig
+  ) {
+    super(scope, name);
+    const tags = config.tags;
+    const prefix = `${config.name}-${name}`;
+
+    // Lets the ECS agent on the instances register with the cluster and pull images
+    const role = new IamRole(this, `instance-role`, {
+      name: `${prefix}-instance`,
+      tags,
+      managedPolicyArns: [
+        "arn:aws:iam::aws:policy/service-role/AmazonEC2ContainerServiceforEC2Role",
+      ],
+      // this role shall only be used by EC2 instances
+      assumeRolePolicy: assumeRolePolicy("ec2.amazonaws.com"),
+    });
+    const instanceProfile = new IamInstanceProfile(this, `instance-profile`, {
+      name: `${prefix}-instance`,
+      role: role.name,
+      tags,
+    });
+
+    const ami = new DataAwsSsmParameter(this, `ami`, {
+      name: AMI_PARAMETERS[capacity.architecture],
+    });
+
+    const launchTemplate = new LaunchTemplate(this, `launch-template`, {
+      name: prefix,
+      imageId: ami.value,
+      instanceType: capacity.instanceType,
+      iamInstanceProfile: { arn: instanceProfile.arn },
+      vpcSecurityGroupIds: props.securityGroups,
+      // tells the ECS agent which cluster to join
+      userData: Fn.base64encode(
+        `#!/bin/bash\necho ECS_CLUSTER=${props.clusterName} >> /etc/ecs/ecs.config\n`
+      ),
+      // only allow IMDSv2, tasks in awsvpc mode can't reach it anyway
+      metadataOptions: {
+        httpEndpoint: "enabled",
+        httpTokens: "required",
+      },
+      tagSpecifications: [{ resourceType: "instance", tags }],
+      tags,
+    });
+
+    const group = new AutoscalingGroup(this, `group`, {
+      name: prefix,
+      minSize: capacity.minSize,
+      maxSize: capacity.maxSize,
+      vpcZoneIdentifier: props.subnets,
+      launchTemplate: { id: launchTemplate.id, version: "$Latest" },
+      // managed scaling changes the desired capacity from here on
+      lifecycle: { ignoreChanges: ["desired_capacity"] },
+      tag: [
+        // required for ECS managed scaling
+        { key: "AmazonECSManaged", value: "true", propagateAtLaunch: true },
+        ...Object.entries(tags).map(([key, value]) => ({
+          key,
+          value,
+          propagateAtLaunch: true,
+        })),
+      ],
+    });
+
+    this.capacityProvider = new EcsCapacityProvider(this, `capacity-provider`, {
+      name: prefix,
+      autoScalingGroupProvider: {
+        autoScalingGroupArn: group.arn,
+        managedScaling: {
+          status: "ENABLED",
+          targetCapacity: capacity.targetCapacity ?? 100,
+        },
+        // instances can be replaced while tasks still run on them, ECS moves them elsewhere
+        managedTerminationProtection: "DISABLED",
+      },
+      tags,
+    });
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { Construct } from "constructs";
+import { Lazy } from "cdktf";
+import { IamRole } from "@cdktf/provider-aws/lib/iam-role";
+
+export type PolicyPrincipal =
+  | "*"
+  | { Service: string | string[] }
+  | { AWS: string | string[] };
+
+export interface PolicyStatement {
+  Sid?: string;
+  Effect: "Allow" | "Deny";
+  // Only for resource policies, e.g. of a bucket or queue
+  Principal?: PolicyPrincipal;
+  Action: string[];
+  // Trust policies have none
+  Resource?: string[];
+  // e.g. { ArnEquals: { "aws:SourceArn": rule.arn } }
+  Condition?: Record<string, Record<string, string | string[]>>;
+}
+
+// Collects statements and renders them as policy JSON
+export class PolicyDocument {
+  private statements: PolicyStatement[] = [];
+
+  constructor(private id?: string) {}
+
+  get isEmpty() {
+    return this.statements.length === 0;
+  }
+
+  addStatement(statement: PolicyStatement) {
+    this.statements.push(statement);
+    return this;
+  }
+
+  allow(
+    actions: string[],
+    resources: string[],
+    options: Pick<PolicyStatement, "Sid" | "Principal" | "Condition"> = {}
+  ) {
+    return this.addStatement({
+      ...options,
+      Effect: "Allow",
+      Action: actions,
+      Resource: resources,
+    });
+  }
+
+  toJson() {
+    return JSON.stringify({
+      Version: "2012-10-17",
+      Id: this.id,
+      Statement: this.statements,
+    });
+  }
+}
+
+// Lets only the given AWS service assume a role, e.g. "ecs-tasks.amazonaws.com"
+export function assumeRolePolicy(service: string) {
+  return new PolicyDocument()
+    .addStatement({
+      Effect: "Allow",
+      Principal: { Service: service },
+      Action: ["sts:AssumeRole"],
+    })
+    .toJson();
+}
+
+// Something that can be given permissions, e.g. the task role of a service
+export interface IGrantable {
+  grant(actions: string[], resources: string[], sid?: string): void;
+}
+
+export interface ServiceRoleProps {
+  name: string;
+  // The AWS service that assumes the role, e.g. "ecs-tasks.amazonaws.com"
+  service: string;
+  managedPolicyArns?: string[];
+  tags: Record<string, string>;
+}
+
+// An IAM role whose inline policy consists of everything granted to it until synth
+export class ServiceRole implements IGrantable {
+  role: IamRole;
+  private policy = new PolicyDocument();
+
+  constructor(scope: Construct, id: string, props: ServiceRoleProps) {
+    this.role = new IamRole(scope, id, {
+      name: props.name,
+      tags: props.tags,
+      managedPolicyArns: props.managedPolicyArns,
+      assumeRolePolicy: assumeRolePolicy(props.service),
+      // a single empty block removes inline policies that are no longer granted
+      inlinePolicy: Lazy.anyValue({
+        produce: () =>
+          this.policy.isEmpty
+            ? [{}]
+            : [{ name: "permissions", policy: this.policy.toJson() }],
+      }),
+    });
+  }
+
+  get arn() {
+    return this.role.arn;
+  }
+
+  get name() {
+    return this.role.name;
+  }
+
+  grant(actions: string[], resources: string[], sid?: string) {
+    this.policy.allow(actions, resources, { Sid: sid });
+  }
+}
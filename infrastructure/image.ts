@@ -0,0 +1,174 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { Construct } from "constructs";
+import { TerraformAsset } from "cdktf";
+import { DataAwsEcrAuthorizationToken } from "@cdktf/provider-aws/lib/data-aws-ecr-authorization-token";
+import { DataAwsEcrImage } from "@cdktf/provider-aws/lib/data-aws-ecr-image";
+import { EcrLifecyclePolicy } from "@cdktf/provider-aws/lib/ecr-lifecycle-policy";
+import { EcrRepository } from "@cdktf/provider-aws/lib/ecr-repository";
+import { Resource } from "@cdktf/provider-null/lib/resource";
+import { EnvironmentConfig } from "./config";
+import { IGrantable } from "./iam";
+
+// Gets an image into the repository and tells us its digest
+export interface ImageBuildStrategy {
+  bind(scope: Construct, repository: EcrRepository): string;
+}
+
+export interface LocalDockerBuildOptions {
+  // e.g. ["linux/amd64", "linux/arm64"], defaults to the platform of the machine running the build
+  platforms?: string[];
+  buildArgs?: Record<string, string>;
+  // Stage of a multi-stage Dockerfile
+  target?: string;
+  // relative to the project path
+  dockerfile?: string;
+}
+
+// Builds the image with docker buildx on the machine running terraform and pushes it to ECR
+export class LocalDockerBuild implements ImageBuildStrategy {
+  constructor(
+    private projectPath: string,
+    private options: LocalDockerBuildOptions = {}
+  ) {}
+
+  bind(scope: Construct, repository: EcrRepository): string {
+    const { platforms, buildArgs = {}, target, dockerfile } = this.options;
+
+    const asset = new TerraformAsset(scope, `project`, {
+      path: this.projectPath,
+    });
+
+    const auth = new DataAwsEcrAuthorizationToken(scope, `auth`, {
+      registryId: repository.registryId,
+    });
+
+    // Tags are immutable, the content hash only changes if the project does
+    const tag = asset.assetHash;
+    const image = `${repository.repositoryUrl}:${tag}`;
+    const args = [
+      `--tag ${image}`,
+      platforms ? `--platform ${platforms.join(",")}` : "",
+      target ? `--target ${target}` : "",
+      dockerfile ? `--file ${dockerfile}` : "",
+      ...Object.entries(buildArgs).map(
+        ([key, value]) => `--build-arg ${key}="${value}"`
+      ),
+      // we want plain images, otherwise attestations show up as untagged images in ECR
+      "--provenance=false",
+      "--push",
+    ].filter(Boolean);
+
+    const build = new Resource(scope, `image`, {
+      dependsOn: [repository],
+      // only build again if the project changed
+      triggers: { tag },
+      provisioners: [
+        {
+          type: "local-exec",
+          workingDir: asset.path,
+          // the password is passed via the environment so that it does not show up in the process list
+          environment: { ECR_PASSWORD: auth.password },
+          command: [
+            `echo "$ECR_PASSWORD" | docker login --username ${auth.userName} --password-stdin ${auth.proxyEndpoint}`,
+            `docker buildx build ${args.join(" ")} .`,
+          ].join(" && "),
+        },
+      ],
+    });
+
+    // Reading the image after the build gives us the digest we pin the task to
+    return new DataAwsEcrImage(scope, `pushed-image`, {
+      dependsOn: [build],
+      repositoryName: repository.name,
+      imageTag: tag,
+    }).imageDigest;
+  }
+}
+
+// An image that was already pushed to the repository, e.g. by CI
+export class PrebuiltImage implements ImageBuildStrategy {
+  constructor(private digest: string) {}
+
+  bind(): string {
+    return this.digest;
+  }
+}
+
+export interface EcrImageOptions {
+  build: ImageBuildStrategy;
+  // Number of tagged images we keep around for rollbacks, defaults to 30
+  keepImages?: number;
+}
+
+export class EcrImage extends Construct {
+  repository: EcrRepository;
+  // Reference to the image by digest, e.g. <account>.dkr.ecr.<region>.amazonaws.com/backend@sha256:...
+  imageUri: string;
+
+  constructor(
+    scope: Construct,
+    name: string,
+    options: EcrImageOptions,
+    config: EnvironmentConfig
+  ) {
+    super(scope, name);
+    const tags = config.tags;
+
+    this.repository = new EcrRepository(this, `ecr`, {
+      name: `${config.name}-${name}`,
+      imageTagMutability: "IMMUTABLE",
+      imageScanningConfiguration: { scanOnPush: true },
+      tags,
+    });
+
+    new EcrLifecyclePolicy(this, `lifecycle-policy`, {
+      repository: this.repository.name,
+      policy: JSON.stringify({
+        rules: [
+          {
+            rulePriority: 1,
+            description: "Remove untagged images",
+            selection: {
+              tagStatus: "untagged",
+              countType: "sinceImagePushed",
+              countUnit: "days",
+              countNumber: 1,
+            },
+            action: { type: "expire" },
+          },
+          {
+            rulePriority: 2,
+            description: "Keep the most recent images",
+            selection: {
+              tagStatus: "any",
+              countType: "imageCountMoreThan",
+              countNumber: options.keepImages ?? 30,
+            },
+            action: { type: "expire" },
+          },
+        ],
+      }),
+    });
+
+    const digest = options.build.bind(this, this.repository);
+    this.imageUri = `${this.repository.repositoryUrl}@${digest}`;
+  }
+
+  // Lets e.g. an ECS execution role pull this image
+  grantPull(grantee: IGrantable) {
+    // the token is for the whole registry, it can't be scoped to a repository
+    grantee.grant(["ecr:GetAuthorizationToken"], ["*"]);
+    grantee.grant(
+      [
+        "ecr:BatchCheckLayerAvailability",
+        "ecr:GetDownloadUrlForLayer",
+        "ecr:BatchGetImage",
+      ],
+      [this.repository.arn]
+    );
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { Construct } from "constructs";
+import {
+  EcsService,
+  EcsServiceCapacityProviderStrategy,
+} from "@cdktf/provider-aws/lib/ecs-service";
+import { EcsTaskDefinition } from "@cdktf/provider-aws/lib/ecs-task-definition";
+import { SecurityGroup } from "@cdktf/provider-aws/lib/security-group";
+import { SecurityGroupRule } from "@cdktf/provider-aws/lib/security-group-rule";
+import { ServiceDiscoveryPrivateDnsNamespace } from "@cdktf/provider-aws/lib/service-discovery-private-dns-namespace";
+import { ServiceDiscoveryService } from "@cdktf/provider-aws/lib/service-discovery-service";
+import { EnvironmentConfig } from "./config";
+
+export interface InternalServiceProps {
+  clusterId: string;
+  task: EcsTaskDefinition;
+  desiredCount: number;
+  namespace: ServiceDiscoveryPrivateDnsNamespace;
+  vpcId: string;
+  subnets: string[];
+  capacityProviderStrategy: EcsServiceCapacityProviderStrategy[];
+  // defaults to 80
+  port?: number;
+  // Additional security groups of the tasks, e.g. one the database allows
+  securityGroups?: string[];
+}
+
+// A service that other services reach via Cloud Map DNS, e.g. worker.staging.internal, without going through the load balancer.
+// ECS Service Connect would need every caller to join it, which the backend can't with the CODE_DEPLOY controller of blue/green deployments.
+export class InternalService extends Construct {
+  service: EcsService;
+  // Callers have to be allowed explicitly, see allowFrom
+  securityGroup: SecurityGroup;
+  dnsName: string;
+  port: number;
+
+  constructor(
+    scope: Construct,
+    name: string,
+    props: InternalServiceProps,
+    config: EnvironmentConfig
+  ) {
+    super(scope, name);
+    const tags = config.tags;
+    this.port = props.port ?? 80;
+    this.dnsName = `${name}.${props.namespace.name}`;
+
+    this.securityGroup = new SecurityGroup(this, `security-group`, {
+      name: `${config.name}-${name}`,
+      vpcId: props.vpcId,
+      // no ingress until a caller is allowed
+      egress: [
+        // allow all outgoing traffic, e.g. to pull images and reach other services
+        {
+          fromPort: 0,
+          toPort: 0,
+          protocol: "-1",
+          cidrBlocks: ["0.0.0.0/0"],
+          ipv6CidrBlocks: ["::/0"],
+        },
+      ],
+      tags,
+    });
+
+    // Every running task gets an A record, unhealthy tasks are removed by ECS
+    const discovery = new ServiceDiscoveryService(this, `discovery`, {
+      name,
+      dnsConfig: {
+        namespaceId: props.namespace.id,
+        dnsRecords: [{ type: "A", ttl: 10 }],
+        routingPolicy: "MULTIVALUE",
+      },
+      healthCheckCustomConfig: { failureThreshold: 1 },
+      tags,
+    });
+
+    this.service = new EcsService(this, `service`, {
+      tags,
+      name,
+      capacityProviderStrategy: props.capacityProviderStrategy,
+      cluster: props.clusterId,
+      desiredCount: props.desiredCount,
+      taskDefinition: props.task.arn,
+      networkConfiguration: {
+        subnets: props.subnets,
+        assignPublicIp: false,
+        securityGroups: [
+          this.securityGroup.id,
+          ...(props.securityGroups || []),
+        ],
+      },
+      serviceRegistries: { registryArn: discovery.arn },
+      deploymentController: { type: "ECS" },
+      // Rolling deployments that never get healthy are rolled back to the last working revision
+      deploymentCircuitBreaker: { enable: true, rollback: true },
+    });
+  }
+
+  // Lets tasks with the given security group call this service
+  allowFrom(caller: string, securityGroupId: string) {
+    new SecurityGroupRule(this, `ingress-from-${caller}`, {
+      type: "ingress",
+      description: `${caller} calls ${this.dnsName}`,
+      securityGroupId: this.securityGroup.id,
+      protocol: "TCP",
+      fromPort: this.port,
+      toPort: this.port,
+      sourceSecurityGroupId: securityGroupId,
+    });
+  }
+}
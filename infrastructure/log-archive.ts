@@ -0,0 +1,150 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { Construct } from "constructs";
+import { KinesisFirehoseDeliveryStream } from "@cdktf/provider-aws/lib/kinesis-firehose-delivery-stream";
+import { S3Bucket } from "@cdktf/provider-aws/lib/s3-bucket";
+import { S3BucketLifecycleConfiguration } from "@cdktf/provider-aws/lib/s3-bucket-lifecycle-configuration";
+import { S3BucketPublicAccessBlock } from "@cdktf/provider-aws/lib/s3-bucket-public-access-block";
+import { S3BucketServerSideEncryptionConfigurationA } from "@cdktf/provider-aws/lib/s3-bucket-server-side-encryption-configuration";
+import { S3Object } from "@cdktf/provider-aws/lib/s3-object";
+import { EnvironmentConfig, LogArchiveConfig } from "./config";
+import { IGrantable, ServiceRole } from "./iam";
+
+// Keeps the logs of our tasks in S3 after CloudWatch dropped them, FireLens log routers send them via Kinesis Firehose
+export class LogArchive extends Construct {
+  bucket: S3Bucket;
+  deliveryStream: KinesisFirehoseDeliveryStream;
+  // Fluent Bit output that sends every record to the delivery stream, the init image of the log router loads it from S3
+  fluentBitConfig: S3Object;
+
+  constructor(
+    scope: Construct,
+    name: string,
+    archive: LogArchiveConfig,
+    config: EnvironmentConfig
+  ) {
+    super(scope, name);
+    const tags = config.tags;
+    const prefix = `${config.name}-${name}`;
+
+    this.bucket = new S3Bucket(this, `bucket`, {
+      bucketPrefix: `${prefix}-`,
+      tags,
+    });
+
+    new S3BucketPublicAccessBlock(this, `public-access-block`, {
+      bucket: this.bucket.id,
+      blockPublicAcls: true,
+      blockPublicPolicy: true,
+      ignorePublicAcls: true,
+      restrictPublicBuckets: true,
+    });
+
+    new S3BucketServerSideEncryptionConfigurationA(this, `encryption`, {
+      bucket: this.bucket.id,
+      rule: [
+        {
+          applyServerSideEncryptionByDefault: { sseAlgorithm: "AES256" },
+        },
+      ],
+    });
+
+    // Logs are rarely read once they are archived, so they move to cheaper storage over time
+    new S3BucketLifecycleConfiguration(this, `lifecycle`, {
+      bucket: this.bucket.id,
+      rule: [
+        {
+          id: "archive-logs",
+          status: "Enabled",
+          filter: { prefix: "logs/" },
+          transition: [
+            {
+              days: archive.infrequentAccessAfterDays,
+              storageClass: "STANDARD_IA",
+            },
+            { days: archive.glacierAfterDays, storageClass: "GLACIER" },
+          ],
+          expiration: archive.expireAfterDays
+            ? { days: archive.expireAfterDays }
+            : undefined,
+        },
+        {
+          // records Firehose could not deliver, only needed until we looked into them
+          id: "expire-errors",
+          status: "Enabled",
+          filter: { prefix: "errors/" },
+          expiration: { days: 30 },
+        },
+      ],
+    });
+
+    const role = new ServiceRole(this, `role`, {
+      name: `${prefix}-firehose`,
+      service: "firehose.amazonaws.com",
+      tags,
+    });
+    role.grant(
+      [
+        "s3:AbortMultipartUpload",
+        "s3:GetBucketLocation",
+        "s3:GetObject",
+        "s3:ListBucket",
+        "s3:ListBucketMultipartUploads",
+        "s3:PutObject",
+      ],
+      [this.bucket.arn, `${this.bucket.arn}/*`]
+    );
+
+    this.deliveryStream = new KinesisFirehoseDeliveryStream(
+      this,
+      `delivery-stream`,
+      {
+        name: prefix,
+        destination: "extended_s3",
+        extendedS3Configuration: {
+          roleArn: role.arn,
+          bucketArn: this.bucket.arn,
+          // one folder per day, so that a single day can be downloaded or queried with Athena
+          prefix: "logs/!{timestamp:yyyy/MM/dd}/",
+          errorOutputPrefix:
+            "errors/!{firehose:error-output-type}/!{timestamp:yyyy/MM/dd}/",
+          compressionFormat: "GZIP",
+          // whichever is reached first, larger objects are cheaper to store and to transition
+          bufferSize: 64,
+          bufferInterval: 300,
+        },
+        tags,
+      }
+    );
+
+    this.fluentBitConfig = new S3Object(this, `fluent-bit-config`, {
+      bucket: this.bucket.id,
+      key: "config/firehose.conf",
+      content: [
+        "[OUTPUT]",
+        "    Name            kinesis_firehose",
+        "    Match           *",
+        `    region          ${config.region}`,
+        `    delivery_stream ${this.deliveryStream.name}`,
+        "",
+      ].join("\n"),
+      contentType: "text/plain",
+      tags,
+    });
+  }
+
+  // Lets a log router load its config and send records to the archive
+  grantWrite(grantee: IGrantable) {
+    grantee.grant(["firehose:PutRecordBatch"], [this.deliveryStream.arn]);
+    grantee.grant(["s3:GetObject"], [this.fluentBitConfigArn]);
+    grantee.grant(["s3:GetBucketLocation"], [this.bucket.arn]);
+  }
+
+  // e.g. "arn:aws:s3:::production-log-archive-123/config/firehose.conf", the format the init image expects
+  get fluentBitConfigArn() {
+    return `${this.bucket.arn}/${this.fluentBitConfig.key}`;
+  }
+}
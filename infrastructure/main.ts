@@ -6,94 +6,147 @@
 import { Construct } from "constructs";
 import {
   App,
+  Aspects,
   Fn,
-  TerraformAsset,
+  ITerraformDependable,
+  S3Backend,
   TerraformOutput,
   TerraformStack,
 } from "cdktf";
 import * as path from "path";
-import { sync as glob } from "glob";
-import { lookup as mime } from "mime-types";
+import { createHash } from "crypto";
 import { AwsProvider } from "@cdktf/provider-aws/lib/provider";
-import { CloudfrontDistribution } from "@cdktf/provider-aws/lib/cloudfront-distribution";
-import { DataAwsEcrAuthorizationToken } from "@cdktf/provider-aws/lib/data-aws-ecr-authorization-token";
-import { EcrRepository } from "@cdktf/provider-aws/lib/ecr-repository";
+import { AcmCertificate } from "@cdktf/provider-aws/lib/acm-certificate";
+import { AcmCertificateValidation } from "@cdktf/provider-aws/lib/acm-certificate-validation";
+import { AppautoscalingPolicy } from "@cdktf/provider-aws/lib/appautoscaling-policy";
+import { AppautoscalingScheduledAction } from "@cdktf/provider-aws/lib/appautoscaling-scheduled-action";
+import { AppautoscalingTarget } from "@cdktf/provider-aws/lib/appautoscaling-target";
+import { CloudfrontDistributionOrigin } from "@cdktf/provider-aws/lib/cloudfront-distribution";
+import { CloudfrontOriginAccessControl } from "@cdktf/provider-aws/lib/cloudfront-origin-access-control";
 import { EcsCluster } from "@cdktf/provider-aws/lib/ecs-cluster";
 import { EcsClusterCapacityProviders } from "@cdktf/provider-aws/lib/ecs-cluster-capacity-providers";
-import { EcsService } from "@cdktf/provider-aws/lib/ecs-service";
+import {
+  EcsService,
+  EcsServiceCapacityProviderStrategy,
+} from "@cdktf/provider-aws/lib/ecs-service";
 import { EcsTaskDefinition } from "@cdktf/provider-aws/lib/ecs-task-definition";
-import { IamRole } from "@cdktf/provider-aws/lib/iam-role";
+import { KmsKey } from "@cdktf/provider-aws/lib/kms-key";
 import { Lb } from "@cdktf/provider-aws/lib/lb";
 import { LbListener } from "@cdktf/provider-aws/lib/lb-listener";
 import { LbTargetGroup } from "@cdktf/provider-aws/lib/lb-target-group";
 import { LbListenerRule } from "@cdktf/provider-aws/lib/lb-listener-rule";
 import { CloudwatchLogGroup } from "@cdktf/provider-aws/lib/cloudwatch-log-group";
-import { SecurityGroup } from "@cdktf/provider-aws/lib/security-group";
+import { CloudwatchLogMetricFilter } from "@cdktf/provider-aws/lib/cloudwatch-log-metric-filter";
+import { DataAwsRoute53Zone } from "@cdktf/provider-aws/lib/data-aws-route53-zone";
+import { Route53Record } from "@cdktf/provider-aws/lib/route53-record";
+import {
+  SecurityGroup,
+  SecurityGroupIngress,
+} from "@cdktf/provider-aws/lib/security-group";
+import { SecurityGroupRule } from "@cdktf/provider-aws/lib/security-group-rule";
 import { S3Bucket } from "@cdktf/provider-aws/lib/s3-bucket";
-import { S3Object } from "@cdktf/provider-aws/lib/s3-object";
 import { S3BucketPolicy } from "@cdktf/provider-aws/lib/s3-bucket-policy";
+import { S3BucketPublicAccessBlock } from "@cdktf/provider-aws/lib/s3-bucket-public-access-block";
+import { S3BucketServerSideEncryptionConfigurationA } from "@cdktf/provider-aws/lib/s3-bucket-server-side-encryption-configuration";
 import { S3BucketWebsiteConfiguration } from "@cdktf/provider-aws/lib/s3-bucket-website-configuration";
+import { ServiceDiscoveryPrivateDnsNamespace } from "@cdktf/provider-aws/lib/service-discovery-private-dns-namespace";
+import { SecretsmanagerSecret } from "@cdktf/provider-aws/lib/secretsmanager-secret";
+import { SecretsmanagerSecretRotation } from "@cdktf/provider-aws/lib/secretsmanager-secret-rotation";
+import { SecretsmanagerSecretVersion } from "@cdktf/provider-aws/lib/secretsmanager-secret-version";
+import { ServerlessapplicationrepositoryCloudformationStack } from "@cdktf/provider-aws/lib/serverlessapplicationrepository-cloudformation-stack";
 import { NullProvider } from "@cdktf/provider-null/lib/provider";
 import { Resource } from "@cdktf/provider-null/lib/resource";
 import { Vpc } from "./.gen/modules/terraform-aws-modules/aws/vpc";
 import { Rds } from "./.gen/modules/terraform-aws-modules/aws/rds";
 import { RandomProvider } from "./.gen/providers/random/provider";
 import { Password } from "./.gen/providers/random/password";
+import {
+  AutoscalingConfig,
+  CapacityProviderStrategyItem,
+  EnvironmentConfig,
+  JobTrigger,
+  getEnvironments,
+  ServiceConfig,
+  stateBackend,
+} from "./config";
+import { VpcEndpoints } from "./vpc-endpoints";
+import { EcrImage, LocalDockerBuild, PrebuiltImage } from "./image";
+import { BlueGreenDeployment } from "./blue-green";
+import { Ec2Capacity } from "./ec2-capacity";
+import { InternalService } from "./internal-service";
+import { ScheduledTask } from "./scheduled-task";
+import { LogArchive } from "./log-archive";
+import { IGrantable, PolicyDocument, ServiceRole } from "./iam";
+import { Cdn } from "./cdn";
+import { AssetDeployment } from "./asset-deployment";
+import { Observability, ObservedService } from "./observability";
+import { WebApplicationFirewall } from "./waf";
+import { defaultPolicies, PolicyException, PolicyValidation } from "./policies";
+import { BootstrapStack } from "./bootstrap";
+import {
+  backendContainer,
+  backendInternalServiceContainer,
+  backendJobContainer,
+  backendMigrationContainer,
+  ContainerOptions,
+  DATABASE_NAME,
+  PostgresConnection,
+  postgresSettings,
+} from "./services";
 
 const S3_ORIGIN_ID = "s3Origin";
 const BACKEND_ORIGIN_ID = "backendOrigin";
-const REGION = "us-east-1";
-
-const tags = {
-  team: "cdk",
-  owner: "dschmidt",
-};
-
-class PushedECRImage extends Construct {
-  tag: string;
-  image: Resource;
-  constructor(scope: Construct, name: string, projectPath: string) {
-    super(scope, name);
-    const repo = new EcrRepository(this, `ecr`, {
-      name,
-      tags,
-    });
 
-    const auth = new DataAwsEcrAuthorizationToken(this, `auth`, {
-      dependsOn: [repo],
-      registryId: repo.registryId,
-    });
+// Violations of our policies that we accept on purpose
+const POLICY_EXCEPTIONS: PolicyException[] = [
+  {
+    rule: "no-world-open-ingress",
+    path: "loadbalancer/lb-security-group",
+    reason: "CloudFront reaches the load balancer via the internet",
+  },
+];
 
-    const asset = new TerraformAsset(this, `project`, {
-      path: projectPath,
-    });
+// The response of the load balancer if no rule matches
+const NOT_FOUND_ACTION = {
+  type: "fixed-response",
+  fixedResponse: {
+    contentType: "text/plain",
+    statusCode: "404",
+    messageBody: "Could not find the resource you are looking for",
+  },
+};
 
-    const version = require(`${projectPath}/package.json`).version;
-    this.tag = `${repo.repositoryUrl}:${version}-${asset.assetHash}`;
-    // Workaround due to https://github.com/kreuzwerker/terraform-provider-docker/issues/189
-    this.image = new Resource(this, `image`, {
-      provisioners: [
-        {
-          type: "local-exec",
-          workingDir: asset.path,
-          command: `docker login -u ${auth.userName} -p ${auth.password} ${auth.proxyEndpoint} && 
-  docker build -t ${this.tag} . && 
-  docker push ${this.tag}`,
-        },
-      ],
-    });
+// Load balancers and target groups allow 32 characters, longer names get shortened and a hash keeps them unique
+const LB_NAME_LENGTH = 32;
+function lbName(name: string) {
+  if (name.length <= LB_NAME_LENGTH) {
+    return name;
   }
+  const hash = createHash("sha256").update(name).digest("hex").slice(0, 8);
+  return `${name
+    .slice(0, LB_NAME_LENGTH - hash.length - 1)
+    .replace(/-+$/, "")}-${hash}`;
 }
+
 class PostgresDB extends Construct {
   public instance: Rds;
+  // RDS instance identifier, e.g. for CloudWatch metrics
+  public identifier: string;
+  // Addresses of the read replicas, empty if there are none
+  public readEndpoints: string[] = [];
+  // Contains username, password, host, port and dbname as JSON
+  public secret: SecretsmanagerSecret;
 
   constructor(
     scope: Construct,
     name: string,
     vpc: Vpc,
-    serviceSecurityGroup: SecurityGroup
+    // Tasks in these groups may connect, e.g. the backend and the internal services
+    clientSecurityGroups: SecurityGroup[],
+    config: EnvironmentConfig
   ) {
     super(scope, name);
+    const tags = config.tags;
 
     // Create a password stored in the TF State on the fly
     const password = new Password(this, `db-password`, {
@@ -101,233 +154,820 @@ class PostgresDB extends Construct {
       special: false,
     });
 
-    const dbPort = 5432;
+    const settings = postgresSettings(config.database, name);
+    const dbPort = settings.port;
+    const { passwordRotationDays } = config.database;
+
+    // The rotation lambda runs within our VPC and needs to reach the DB
+    const rotationSecurityGroup = passwordRotationDays
+      ? new SecurityGroup(this, "rotation-security-group", {
+          vpcId: Fn.tostring(vpc.vpcIdOutput),
+          egress: [
+            // allow all outgoing traffic, it needs to reach the DB and the Secrets Manager API
+            {
+              fromPort: 0,
+              toPort: 0,
+              protocol: "-1",
+              cidrBlocks: ["0.0.0.0/0"],
+              ipv6CidrBlocks: ["::/0"],
+            },
+          ],
+          tags,
+        })
+      : undefined;
 
     const dbSecurityGroup = new SecurityGroup(this, "db-security-group", {
       vpcId: Fn.tostring(vpc.vpcIdOutput),
       ingress: [
-        // allow traffic to the DBs port from the service
+        // allow traffic to the DBs port from the service (and the rotation lambda)
         {
           fromPort: dbPort,
           toPort: dbPort,
           protocol: "TCP",
-          securityGroups: [serviceSecurityGroup.id],
+          securityGroups: [
+            ...clientSecurityGroups.map(({ id }) => id),
+            ...(rotationSecurityGroup ? [rotationSecurityGroup.id] : []),
+          ],
         },
       ],
       tags,
     });
 
-    // Using this module: https://registry.terraform.io/modules/terraform-aws-modules/rds/aws/latest
-    const db = new Rds(this, "db", {
-      identifier: `${name}-db`,
+    const { engineVersion } = settings;
+    const { backupRetentionDays = 7, readReplicas = 0 } = config.database;
+    const majorEngineVersion = engineVersion.split(".")[0];
+
+    // Storage, snapshots and performance insights are encrypted with the same key
+    const kmsKeyId = config.database.customerManagedKey
+      ? new KmsKey(this, "db-key", {
+          description: `Encryption of the ${name} database`,
+          enableKeyRotation: true,
+          // keeps the key around for a while in case we delete it by accident
+          deletionWindowInDays: 30,
+          tags,
+        }).arn
+      : undefined;
 
+    // Settings shared by the primary and its replicas
+    const instanceSettings = {
       engine: "postgres",
-      engineVersion: "14.1",
-      family: "postgres14",
-      majorEngineVersion: "14",
-      instanceClass: "db.t3.micro",
-      allocatedStorage: "5",
+      engineVersion,
+      family: `postgres${majorEngineVersion}`,
+      majorEngineVersion,
+      instanceClass: config.database.instanceClass,
+      port: String(dbPort),
 
       createDbOptionGroup: false,
-      createDbParameterGroup: false,
-      applyImmediately: true,
-
-      name,
-      port: String(dbPort),
-      username: `${name}user`,
-      password: password.result,
+      applyImmediately: config.database.applyImmediately ?? false,
+      storageEncrypted: true,
+      kmsKeyId,
+      performanceInsightsEnabled: config.database.performanceInsights ?? false,
+      performanceInsightsKmsKeyId: config.database.performanceInsights
+        ? kmsKeyId
+        : undefined,
 
       maintenanceWindow: "Mon:00:00-Mon:03:00",
-      backupWindow: "03:00-06:00",
 
       // This is necessary due to a shortcoming in our token system to be adressed in
       // https://github.com/hashicorp/terraform-cdk/issues/651
       subnetIds: vpc.databaseSubnetsOutput as unknown as any,
       vpcSecurityGroupIds: [dbSecurityGroup.id],
       tags,
+    };
+
+    // Using this module: https://registry.terraform.io/modules/terraform-aws-modules/rds/aws/latest
+    this.identifier = `${config.name}-${name}-db`;
+    const db = new Rds(this, "db", {
+      ...instanceSettings,
+      identifier: this.identifier,
+      allocatedStorage: String(config.database.allocatedStorage),
+      maxAllocatedStorage: config.database.maxAllocatedStorage
+        ? String(config.database.maxAllocatedStorage)
+        : undefined,
+      multiAz: config.database.multiAz ?? false,
+      deletionProtection: config.database.deletionProtection ?? false,
+
+      createDbParameterGroup: true,
+      parameters: Object.entries(settings.parameters).map(([name, value]) => ({
+        name,
+        value,
+      })),
+
+      name: settings.database,
+      username: settings.user,
+      password: password.result,
+
+      backupWindow: "03:00-06:00",
+      backupRetentionPeriod: String(backupRetentionDays),
+      skipFinalSnapshot: !config.database.finalSnapshot,
+      finalSnapshotIdentifierPrefix: `${this.identifier}-final`,
+      copyTagsToSnapshot: true,
     });
 
+    // Replicas take their data, credentials and parameters from the primary
+    for (let i = 0; i < readReplicas; i++) {
+      const replica = new Rds(this, `db-replica-${i}`, {
+        ...instanceSettings,
+        identifier: `${this.identifier}-replica-${i}`,
+        replicateSourceDb: Fn.tostring(db.dbInstanceIdOutput),
+        createDbParameterGroup: false,
+        parameterGroupName: Fn.tostring(db.dbParameterGroupIdOutput),
+        // backups are taken from the primary
+        backupRetentionPeriod: "0",
+        skipFinalSnapshot: true,
+      });
+      this.readEndpoints.push(Fn.tostring(replica.dbInstanceAddressOutput));
+    }
+
     this.instance = db;
+
+    // Store the credentials so that ECS can inject them without them being part of the task definition
+    this.secret = new SecretsmanagerSecret(this, "db-secret", {
+      name: `${config.name}/${name}/db-credentials`,
+      description: `Credentials for the ${name} database`,
+      tags,
+    });
+
+    // The format is the one expected by the AWS provided rotation lambdas
+    new SecretsmanagerSecretVersion(this, "db-secret-version", {
+      secretId: this.secret.id,
+      secretString: Fn.jsonencode({
+        engine: "postgres",
+        username: db.username,
+        password: password.result,
+        host: Fn.tostring(db.dbInstanceAddressOutput),
+        port: dbPort,
+        dbname: db.name,
+      }),
+      // Once rotated the secret holds the current password, we must not overwrite it
+      lifecycle: passwordRotationDays
+        ? { ignoreChanges: ["secret_string"] }
+        : undefined,
+    });
+
+    if (passwordRotationDays && rotationSecurityGroup) {
+      // AWS publishes a rotation lambda for single user PostgreSQL setups, the old password stops working right away
+      const rotationLambda =
+        new ServerlessapplicationrepositoryCloudformationStack(
+          this,
+          "rotation-lambda",
+          {
+            name: `${config.name}-${name}-db-rotation`,
+            applicationId:
+              "arn:aws:serverlessrepo:us-east-1:297356227824:applications/SecretsManagerRDSPostgreSQLRotationSingleUser",
+            capabilities: ["CAPABILITY_IAM", "CAPABILITY_RESOURCE_POLICY"],
+            parameters: {
+              functionName: `${config.name}-${name}-db-rotation`,
+              endpoint: `https://secretsmanager.${config.region}.amazonaws.com`,
+              vpcSubnetIds: Fn.join(",", Fn.tolist(vpc.privateSubnetsOutput)),
+              vpcSecurityGroupIds: rotationSecurityGroup.id,
+            },
+            tags,
+          }
+        );
+
+      new SecretsmanagerSecretRotation(this, "db-secret-rotation", {
+        secretId: this.secret.id,
+        rotationLambdaArn: rotationLambda.outputs.lookup("RotationLambdaARN"),
+        rotationRules: {
+          automaticallyAfterDays: passwordRotationDays,
+        },
+      });
+    }
   }
 }
 
+class DnsValidatedCertificate extends Construct {
+  certificateArn: string;
+
+  constructor(
+    scope: Construct,
+    name: string,
+    domainName: string,
+    zone: DataAwsRoute53Zone,
+    config: EnvironmentConfig,
+    // CloudFront only accepts certificates from us-east-1, so we need to be able to pass a different provider
+    provider?: AwsProvider
+  ) {
+    super(scope, name);
+
+    const certificate = new AcmCertificate(this, `certificate`, {
+      provider,
+      domainName,
+      validationMethod: "DNS",
+      tags: config.tags,
+      lifecycle: {
+        createBeforeDestroy: true,
+      },
+    });
+
+    // We only request a single domain, so there is exactly one validation record
+    const validationOption = certificate.domainValidationOptions.get(0);
+    const validationRecord = new Route53Record(this, `validation-record`, {
+      zoneId: zone.zoneId,
+      name: validationOption.resourceRecordName,
+      type: validationOption.resourceRecordType,
+      records: [validationOption.resourceRecordValue],
+      ttl: 60,
+      allowOverwrite: true,
+    });
+
+    // Waits until the certificate is issued, so that listeners and distributions can use it
+    const validation = new AcmCertificateValidation(this, `validation`, {
+      provider,
+      certificateArn: certificate.arn,
+      validationRecordFqdns: [validationRecord.fqdn],
+    });
+
+    this.certificateArn = validation.certificateArn;
+  }
+}
+
+interface SidecarContainer extends ContainerOptions {
+  name: string;
+  image: string;
+  // If an essential container stops the whole task is stopped, defaults to true
+  essential?: boolean;
+  // Reserved out of the task limits, the main container gets the rest
+  cpu?: number;
+  memory?: number;
+}
+
+interface TaskOptions extends ContainerOptions {
+  // Limits for the whole task, see https://docs.aws.amazon.com/AmazonECS/latest/developerguide/task-cpu-memory-error.html
+  cpu: number;
+  memory: number;
+  runtimePlatform?: {
+    cpuArchitecture: "X86_64" | "ARM64";
+    operatingSystemFamily?: string;
+  };
+  sidecars?: SidecarContainer[];
+}
+
+// Translates our options into the format of an ECS container definition
+function containerDefinition(
+  name: string,
+  image: string,
+  options: ContainerOptions,
+  logConfiguration: Record<string, unknown>
+) {
+  return {
+    name,
+    image,
+    command: options.command,
+    environment: Object.entries(options.env || {})
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => ({ name, value })),
+    secrets: Object.entries(options.secrets || {}).map(
+      ([name, { secretArn, jsonKey }]) => ({
+        name,
+        valueFrom: jsonKey ? `${secretArn}:${jsonKey}::` : secretArn,
+      })
+    ),
+    portMappings: (options.ports || []).map((port) => ({
+      containerPort: port,
+      hostPort: port,
+      protocol: "tcp",
+    })),
+    healthCheck: options.healthCheck,
+    stopTimeout: options.stopTimeout,
+    ulimits: options.ulimits,
+    dependsOn: options.dependsOn,
+    logConfiguration,
+  };
+}
+
+// Services without a strategy of their own or the cluster run on regular Fargate capacity
+const DEFAULT_CAPACITY_PROVIDER_STRATEGY: CapacityProviderStrategyItem[] = [
+  { capacityProvider: "FARGATE", weight: 1 },
+];
+
+// FireLens sidecar that routes the logs of the other containers of a task, see LoggingConfig
+const LOG_ROUTER = "log-router";
+// The init variant loads additional config files from S3 and from within the image.
+// Pinned like our own images, so that a new release never changes running tasks unnoticed.
+const LOG_ROUTER_IMAGE =
+  "public.ecr.aws/aws-observability/aws-for-fluent-bit:init-2.31.12";
+
+// Where the EC2 instances and internal services of a cluster run
+interface ClusterNetwork {
+  vpcId: string;
+  subnets: string[];
+  securityGroups: string[];
+}
+
 class Cluster extends Construct {
   public cluster: EcsCluster;
-  constructor(scope: Construct, clusterName: string) {
+  // Only exists if the cluster is configured with EC2 capacity
+  public ec2Capacity?: Ec2Capacity;
+  // Only exists if the logs of the environment are archived
+  public logArchive?: LogArchive;
+  private config: EnvironmentConfig;
+  private network?: ClusterNetwork;
+  private dnsNamespace?: ServiceDiscoveryPrivateDnsNamespace;
+  private taskRoles = new Map<EcsTaskDefinition, ServiceRole>();
+
+  constructor(
+    scope: Construct,
+    clusterName: string,
+    config: EnvironmentConfig,
+    // only needed with EC2 capacity or internal services
+    network?: ClusterNetwork
+  ) {
     super(scope, clusterName);
+    this.config = config;
+    this.network = network;
+    const name = `${config.name}-${clusterName}`;
 
     const cluster = new EcsCluster(this, `ecs-${clusterName}`, {
-      name: clusterName,
-      tags,
+      name,
+      tags: config.tags,
     });
+    this.cluster = cluster;
+
+    const ec2 = config.cluster?.ec2;
+    if (ec2) {
+      if (!network) {
+        throw new Error(`Cluster ${name} needs a network for its EC2 capacity`);
+      }
+      this.ec2Capacity = new Ec2Capacity(
+        this,
+        `${clusterName}-ec2`,
+        {
+          clusterName: name,
+          subnets: network.subnets,
+          securityGroups: network.securityGroups,
+        },
+        ec2,
+        config
+      );
+    }
+
+    const archive = config.logging?.archive;
+    if (archive) {
+      this.logArchive = new LogArchive(
+        this,
+        `${clusterName}-log-archive`,
+        archive,
+        config
+      );
+    }
 
     new EcsClusterCapacityProviders(this, `capacity-providers-${clusterName}`, {
       clusterName: cluster.name,
-      capacityProviders: ["FARGATE"],
+      capacityProviders: [
+        "FARGATE",
+        "FARGATE_SPOT",
+        ...(this.ec2Capacity ? [this.ec2Capacity.capacityProvider.name] : []),
+      ],
+      defaultCapacityProviderStrategy: this.capacityProviderStrategy(),
     });
+  }
 
-    this.cluster = cluster;
+  // Private DNS names of the internal services, e.g. "worker.staging.internal", created with the first one
+  public get namespace() {
+    if (!this.dnsNamespace) {
+      if (!this.network) {
+        throw new Error(
+          `Cluster ${this.cluster.name} needs a network for internal services`
+        );
+      }
+      this.dnsNamespace = new ServiceDiscoveryPrivateDnsNamespace(
+        this,
+        "namespace",
+        {
+          name: `${this.config.name}.internal`,
+          description: `Internal services of ${this.cluster.name}`,
+          vpc: this.network.vpcId,
+          tags: this.config.tags,
+        }
+      );
+    }
+    return this.dnsNamespace;
+  }
+
+  // Runs a service that is only reachable from within the VPC, callers have to be allowed with allowFrom
+  public runInternalService(
+    name: string,
+    task: EcsTaskDefinition,
+    options: {
+      desiredCount: number;
+      capacityProviderStrategy?: CapacityProviderStrategyItem[];
+      cpuArchitecture?: "X86_64" | "ARM64";
+      port?: number;
+      // Additional security groups of the tasks, e.g. one the database allows
+      securityGroups?: string[];
+    }
+  ) {
+    const { namespace } = this;
+    const { capacityProviderStrategy, cpuArchitecture, ...service } = options;
+    return new InternalService(
+      this,
+      name,
+      {
+        clusterId: this.cluster.id,
+        task,
+        namespace,
+        vpcId: this.network!.vpcId,
+        subnets: this.network!.subnets,
+        capacityProviderStrategy: this.capacityProviderStrategy(
+          capacityProviderStrategy,
+          cpuArchitecture
+        ),
+        ...service,
+      },
+      this.config
+    );
+  }
+
+  // Runs the task on a schedule or on events, without a service keeping it running
+  public runScheduledTask(
+    name: string,
+    task: EcsTaskDefinition,
+    trigger: JobTrigger,
+    options: {
+      // e.g. to run a different command with the backend task definition
+      commandOverride?: { containerName: string; command: string[] };
+      securityGroups?: string[];
+      cpuArchitecture?: "X86_64" | "ARM64";
+    } = {}
+  ) {
+    if (!this.network) {
+      throw new Error(
+        `Cluster ${this.cluster.name} needs a network for scheduled tasks`
+      );
+    }
+    return new ScheduledTask(
+      this,
+      `${name}-schedule`,
+      {
+        clusterArn: this.cluster.arn,
+        task,
+        trigger,
+        subnets: this.network.subnets,
+        securityGroups: options.securityGroups ?? this.network.securityGroups,
+        capacityProviderStrategy: this.capacityProviderStrategy(
+          undefined,
+          options.cpuArchitecture
+        ),
+        commandOverride: options.commandOverride,
+      },
+      this.config
+    );
+  }
+
+  // Translates a strategy of our config into the one of ECS and checks that the tasks can actually be placed
+  public capacityProviderStrategy(
+    strategy = this.config.cluster?.defaultCapacityProviderStrategy ??
+      DEFAULT_CAPACITY_PROVIDER_STRATEGY,
+    cpuArchitecture: "X86_64" | "ARM64" = "X86_64"
+  ): EcsServiceCapacityProviderStrategy[] {
+    const ec2 = this.config.cluster?.ec2;
+    if (strategy.filter(({ base }) => base).length > 1) {
+      throw new Error(
+        "Only one capacity provider of a strategy can have a base"
+      );
+    }
+
+    return strategy.map(({ capacityProvider, weight, base }) => {
+      if (capacityProvider === "FARGATE_SPOT" && cpuArchitecture === "ARM64") {
+        throw new Error("FARGATE_SPOT does not run ARM64 tasks");
+      }
+      if (capacityProvider === "EC2") {
+        if (!ec2 || !this.ec2Capacity) {
+          throw new Error(
+            `Cluster ${this.cluster.name} has no EC2 capacity, see the cluster config`
+          );
+        }
+        if (ec2.architecture !== cpuArchitecture) {
+          throw new Error(
+            `The EC2 instances are ${ec2.architecture}, the tasks ${cpuArchitecture}`
+          );
+        }
+      }
+
+      return {
+        capacityProvider:
+          capacityProvider === "EC2"
+            ? this.ec2Capacity!.capacityProvider.name
+            : capacityProvider,
+        weight,
+        base,
+      };
+    });
   }
 
   public runDockerImage(
     name: string,
-    tag: string,
-    image: Resource,
-    env: Record<string, string | undefined>
+    image: EcrImage,
+    options: TaskOptions,
+    // Has to be done before a revision gets registered, e.g. a migration the task relies on
+    dependsOn: ITerraformDependable[] = []
   ) {
-    // Role that allows us to get the Docker image
-    const executionRole = new IamRole(this, `execution-role`, {
-      name: `${name}-execution-role`,
-      tags,
-      inlinePolicy: [
-        {
-          name: "allow-ecr-pull",
-          policy: JSON.stringify({
-            Version: "2012-10-17",
-            Statement: [
-              {
-                Effect: "Allow",
-                Action: [
-                  "ecr:GetAuthorizationToken",
-                  "ecr:BatchCheckLayerAvailability",
-                  "ecr:GetDownloadUrlForLayer",
-                  "ecr:BatchGetImage",
-                  "logs:CreateLogStream",
-                  "logs:PutLogEvents",
-                ],
-                Resource: "*",
+    const tags = this.config.tags;
+    const { ports = [80] } = options;
+    const { retentionDays = 30, metricFilters = {} } =
+      this.config.logging || {};
+    const { logArchive } = this;
+    // With an archive every task gets a log router that sends the logs to CloudWatch and to the archive
+    const sidecars: SidecarContainer[] = [
+      ...(logArchive
+        ? [
+            {
+              name: LOG_ROUTER,
+              image: LOG_ROUTER_IMAGE,
+              env: {
+                // parses the JSON lines of our applications into fields
+                aws_fluent_bit_init_file_1:
+                  "/fluent-bit/configs/parse-json.conf",
+                aws_fluent_bit_init_s3_1: logArchive.fluentBitConfigArn,
               },
-            ],
-          }),
-        },
-      ],
-      // this role shall only be used by an ECS task
-      assumeRolePolicy: JSON.stringify({
-        Version: "2012-10-17",
-        Statement: [
-          {
-            Action: "sts:AssumeRole",
-            Effect: "Allow",
-            Sid: "",
-            Principal: {
-              Service: "ecs-tasks.amazonaws.com",
+              cpu: 64,
+              memory: 128,
             },
-          },
-        ],
-      }),
+          ]
+        : []),
+      ...(options.sidecars || []),
+    ];
+    const secretArns = Array.from(
+      new Set(
+        [options, ...sidecars]
+          .map(({ secrets = {} }) => Object.values(secrets))
+          .reduce((all, containerSecrets) => all.concat(containerSecrets), [])
+          .map(({ secretArn }) => secretArn)
+      )
+    );
+    // Role ECS uses to start the task: pull the image, write logs and read secrets
+    const executionRole = new ServiceRole(this, `${name}-execution-role`, {
+      name: `${this.config.name}-${name}-execution-role`,
+      service: "ecs-tasks.amazonaws.com",
+      tags,
     });
+    image.grantPull(executionRole);
 
-    // Role that allows us to push logs
-    const taskRole = new IamRole(this, `task-role`, {
-      name: `${name}-task-role`,
+    // Creates a log group for the task
+    const logGroup = new CloudwatchLogGroup(this, `${name}-loggroup`, {
+      name: `${this.cluster.name}/${name}`,
+      retentionInDays: retentionDays,
       tags,
-      inlinePolicy: [
-        {
-          name: "allow-logs",
-          policy: JSON.stringify({
-            Version: "2012-10-17",
-            Statement: [
-              {
-                Effect: "Allow",
-                Action: ["logs:CreateLogStream", "logs:PutLogEvents"],
-                Resource: "*",
-              },
-            ],
-          }),
+    });
+    executionRole.grant(
+      ["logs:CreateLogStream", "logs:PutLogEvents"],
+      [`${logGroup.arn}:*`]
+    );
+
+    // e.g. counts the error lines of the task, so that we can alarm on them
+    Object.entries(metricFilters).forEach(([metric, pattern]) => {
+      new CloudwatchLogMetricFilter(this, `${name}-${metric}-metric-filter`, {
+        name: `${name}-${metric}`,
+        logGroupName: logGroup.name,
+        pattern,
+        metricTransformation: {
+          name: metric,
+          namespace: `${this.cluster.name}/${name}`,
+          value: "1",
+          defaultValue: "0",
         },
-      ],
-      assumeRolePolicy: JSON.stringify({
-        Version: "2012-10-17",
-        Statement: [
-          {
-            Action: "sts:AssumeRole",
-            Effect: "Allow",
-            Sid: "",
-            Principal: {
-              Service: "ecs-tasks.amazonaws.com",
-            },
-          },
-        ],
-      }),
+      });
     });
 
-    // Creates a log group for the task
-    const logGroup = new CloudwatchLogGroup(this, `loggroup`, {
-      name: `${this.cluster.name}/${name}`,
-      retentionInDays: 30,
+    // ECS reads the secrets on our behalf when starting the task
+    if (secretArns.length) {
+      executionRole.grant(["secretsmanager:GetSecretValue"], secretArns);
+    }
+
+    // Role of the application itself, it gets nothing until something is granted to it, see taskRole()
+    const taskRole = new ServiceRole(this, `${name}-task-role`, {
+      name: `${this.config.name}-${name}-task-role`,
+      service: "ecs-tasks.amazonaws.com",
       tags,
     });
 
+    if (logArchive) {
+      // The log router writes to CloudWatch and the archive with the role of the task
+      taskRole.grant(
+        ["logs:CreateLogStream", "logs:PutLogEvents"],
+        [`${logGroup.arn}:*`]
+      );
+      logArchive.grantWrite(taskRole);
+    }
+
+    // Every container logs into the same group, within its own stream
+    const logConfiguration = (containerName: string) =>
+      logArchive && containerName !== LOG_ROUTER
+        ? {
+            logDriver: "awsfirelens",
+            options: {
+              Name: "cloudwatch_logs",
+              region: this.config.region,
+              log_group_name: logGroup.name,
+              log_stream_prefix: `${containerName}/`,
+              auto_create_group: "false",
+            },
+          }
+        : {
+            logDriver: "awslogs",
+            options: {
+              // Defines the log
+              "awslogs-group": logGroup.name,
+              "awslogs-region": this.config.region,
+              "awslogs-stream-prefix": containerName,
+            },
+          };
+    // The other containers can only log once the router runs
+    const containerDependsOn = (
+      container: ContainerOptions & { name: string }
+    ) =>
+      logArchive && container.name !== LOG_ROUTER
+        ? [
+            ...(container.dependsOn || []),
+            { containerName: LOG_ROUTER, condition: "START" as const },
+          ]
+        : container.dependsOn;
+
+    // Sidecars get what they ask for, the main container gets the remaining resources
+    const sidecarCpu = sidecars.reduce((sum, { cpu = 0 }) => sum + cpu, 0);
+    const sidecarMemory = sidecars.reduce(
+      (sum, { memory = 0 }) => sum + memory,
+      0
+    );
+
     // Creates a task that runs the docker container
-    const task = new EcsTaskDefinition(this, `task`, {
-      // We want to wait until the image is actually pushed
-      dependsOn: [image],
+    const task = new EcsTaskDefinition(this, `${name}-task`, {
       tags,
-      // These values are fixed for the example, we can make them part of our function invocation if we want to change them
-      cpu: "256",
-      memory: "512",
-      requiresCompatibilities: ["FARGATE", "EC2"],
+      cpu: String(options.cpu),
+      memory: String(options.memory),
+      // awsvpc tasks on EC2 need an ENI each, the instance type limits how many fit
+      requiresCompatibilities: [
+        "FARGATE",
+        ...(this.ec2Capacity ? ["EC2"] : []),
+      ],
       networkMode: "awsvpc",
+      runtimePlatform: options.runtimePlatform,
       executionRoleArn: executionRole.arn,
       taskRoleArn: taskRole.arn,
       containerDefinitions: JSON.stringify([
         {
-          name,
-          image: tag,
-          cpu: 256,
-          memory: 512,
-          environment: Object.entries(env).map(([name, value]) => ({
+          ...containerDefinition(
             name,
-            value,
-          })),
-          portMappings: [
+            // pinned to the digest, so that every image change creates a new revision
+            image.imageUri,
             {
-              containerPort: 80,
-              hostPort: 80,
+              ...options,
+              ports,
+              dependsOn: containerDependsOn({ ...options, name }),
             },
-          ],
-          logConfiguration: {
-            logDriver: "awslogs",
-            options: {
-              // Defines the log
-              "awslogs-group": logGroup.name,
-              "awslogs-region": REGION,
-              "awslogs-stream-prefix": name,
-            },
-          },
+            logConfiguration(name)
+          ),
+          essential: true,
+          cpu: options.cpu - sidecarCpu,
+          memory: options.memory - sidecarMemory,
         },
+        ...sidecars.map((sidecar) => ({
+          ...containerDefinition(
+            sidecar.name,
+            sidecar.image,
+            { ...sidecar, dependsOn: containerDependsOn(sidecar) },
+            logConfiguration(sidecar.name)
+          ),
+          firelensConfiguration:
+            sidecar.name === LOG_ROUTER ? { type: "fluentbit" } : undefined,
+          essential: sidecar.essential ?? true,
+          cpu: sidecar.cpu,
+          memory: sidecar.memory,
+        })),
       ]),
-      family: "service",
+      // Each service gets its own family so that their revisions don't interfere
+      family: `${this.config.name}-${name}`,
+      dependsOn,
     });
+    this.taskRoles.set(task, taskRole);
 
     return task;
   }
+
+  // The role the containers of a task run with, e.g. to let a bucket grant read access to it
+  public taskRole(task: EcsTaskDefinition): IGrantable {
+    const role = this.taskRoles.get(task);
+    if (!role) {
+      throw new Error(`Task ${task.family} was not created by this cluster`);
+    }
+    return role;
+  }
+
+  // Runs the task whenever its definition changes, e.g. for migrations, and fails the apply if it does not succeed
+  public runTaskOnce(
+    name: string,
+    task: EcsTaskDefinition,
+    options: {
+      subnets: string[];
+      securityGroups: string[];
+      cpuArchitecture?: "X86_64" | "ARM64";
+      // The apply fails if the task has not stopped by then, defaults to 30
+      timeoutMinutes?: number;
+    }
+  ) {
+    const cluster = this.cluster.name;
+    const { subnets, securityGroups, timeoutMinutes = 30 } = options;
+    // Placed like the services of the cluster, e.g. on its EC2 capacity
+    const strategy = this.capacityProviderStrategy(
+      undefined,
+      options.cpuArchitecture
+    ).map(({ capacityProvider, weight, base }) => ({
+      capacityProvider,
+      weight,
+      base: base ?? 0,
+    }));
+
+    return new Resource(this, `${name}-run`, {
+      triggers: { taskDefinition: task.arn },
+      provisioners: [
+        {
+          type: "local-exec",
+          environment: {
+            AWS_REGION: this.config.region,
+            NETWORK: Fn.jsonencode({
+              awsvpcConfiguration: {
+                subnets,
+                securityGroups,
+                assignPublicIp: "DISABLED",
+              },
+            }),
+            STRATEGY: Fn.jsonencode(strategy),
+          },
+          // aws ecs wait gives up after 10 minutes, so we poll ourselves
+          command: [
+            // without a task the failures tell why, e.g. missing capacity or permissions
+            `TASK_ARN=$(aws ecs run-task --cluster ${cluster} --task-definition ${task.arn} --capacity-provider-strategy "$STRATEGY" --network-configuration "$NETWORK" --query "tasks[0].taskArn || to_string(failures)" --output text)`,
+            `case "$TASK_ARN" in arn:*) ;; *) echo "${name} could not be started: $TASK_ARN"; exit 1 ;; esac`,
+            `DEADLINE=$(( $(date +%s) + ${timeoutMinutes * 60} ))`,
+            `while [ "$(aws ecs describe-tasks --cluster ${cluster} --tasks "$TASK_ARN" --query "tasks[0].lastStatus" --output text)" != "STOPPED" ]; do if [ "$(date +%s)" -ge "$DEADLINE" ]; then echo "${name} did not stop within ${timeoutMinutes} minutes, see $TASK_ARN"; exit 1; fi; sleep 15; done`,
+            `EXIT_CODE=$(aws ecs describe-tasks --cluster ${cluster} --tasks "$TASK_ARN" --query "tasks[0].containers[?name=='${name}'].exitCode | [0]" --output text)`,
+            `if [ "$EXIT_CODE" != "0" ]; then echo "${name} failed with exit code $EXIT_CODE, see the logs of $TASK_ARN"; exit 1; fi`,
+          ].join(" && "),
+        },
+      ],
+    });
+  }
+}
+
+// Describes which requests the load balancer forwards to a service
+interface ServiceRouting {
+  // e.g. "/backend", matches every path starting with it
+  path?: string;
+  // e.g. "admin.example.com"
+  hostHeader?: string;
+  // Rules are evaluated in order of priority, by default in the order services are exposed
+  priority?: number;
+  // defaults to /ready
+  healthCheckPath?: string;
+  // defaults to 80
+  containerPort?: number;
 }
 
 class LoadBalancer extends Construct {
   lb: Lb;
   lbl: LbListener;
   vpc: Vpc;
-  cluster: EcsCluster;
+  cluster: Cluster;
+  config: EnvironmentConfig;
+  // Every service exposed so far, e.g. to monitor them
+  services: ObservedService[] = [];
+  // We leave gaps between the priorities so that rules can be squeezed in manually
+  private nextPriority = 100;
+  securityGroup: SecurityGroup;
+  private ingress: SecurityGroupIngress[];
+  private certificateArn?: string;
 
-  constructor(scope: Construct, name: string, vpc: Vpc, cluster: EcsCluster) {
+  constructor(
+    scope: Construct,
+    name: string,
+    vpc: Vpc,
+    cluster: Cluster,
+    config: EnvironmentConfig,
+    // If set we serve HTTPS and redirect all HTTP traffic to it
+    certificateArn?: string
+  ) {
     super(scope, name);
     this.vpc = vpc;
     this.cluster = cluster;
+    this.config = config;
+    this.certificateArn = certificateArn;
+    const tags = config.tags;
+    const ports = certificateArn ? [80, 443] : [80];
 
+    // allow HTTP(S) traffic from everywhere
+    this.ingress = ports.map((port) => ({
+      protocol: "TCP",
+      fromPort: port,
+      toPort: port,
+      cidrBlocks: ["0.0.0.0/0"],
+      ipv6CidrBlocks: ["::/0"],
+    }));
     const lbSecurityGroup = new SecurityGroup(this, `lb-security-group`, {
       vpcId: Fn.tostring(vpc.vpcIdOutput),
       tags,
-      ingress: [
-        // allow HTTP traffic from everywhere
-        {
-          protocol: "TCP",
-          fromPort: 80,
-          toPort: 80,
-          cidrBlocks: ["0.0.0.0/0"],
-          ipv6CidrBlocks: ["::/0"],
-        },
-      ],
+      ingress: this.ingress,
       egress: [
         // allow all traffic to every destination
         {
@@ -340,7 +980,7 @@ class LoadBalancer extends Construct {
       ],
     });
     this.lb = new Lb(this, `lb`, {
-      name,
+      name: lbName(`${config.name}-${name}`),
       tags,
       // we want this to be our public load balancer so that cloudfront can access it
       internal: false,
@@ -348,51 +988,102 @@ class LoadBalancer extends Construct {
       securityGroups: [lbSecurityGroup.id],
       subnets: Fn.tolist(vpc.publicSubnetsOutput),
     });
+    this.securityGroup = lbSecurityGroup;
 
-    this.lbl = new LbListener(this, `lb-listener`, {
+    const httpListener = new LbListener(this, `lb-listener`, {
       loadBalancerArn: this.lb.arn,
       port: 80,
       protocol: "HTTP",
       tags,
       defaultAction: [
-        // We define a fixed 404 message, just in case
-        {
-          type: "fixed-response",
-          fixedResponse: {
-            contentType: "text/plain",
-            statusCode: "404",
-            messageBody: "Could not find the resource you are looking for",
-          },
-        },
+        certificateArn
+          ? {
+              type: "redirect",
+              redirect: {
+                port: "443",
+                protocol: "HTTPS",
+                statusCode: "HTTP_301",
+              },
+            }
+          : // We define a fixed 404 message, just in case
+            NOT_FOUND_ACTION,
       ],
     });
+
+    // Services are exposed on the HTTPS listener if we have one
+    this.lbl = certificateArn
+      ? new LbListener(this, `lb-listener-https`, {
+          loadBalancerArn: this.lb.arn,
+          port: 443,
+          protocol: "HTTPS",
+          sslPolicy: "ELBSecurityPolicy-TLS13-1-2-2021-06",
+          certificateArn,
+          tags,
+          defaultAction: [NOT_FOUND_ACTION],
+        })
+      : httpListener;
   }
 
   exposeService(
     name: string,
     task: EcsTaskDefinition,
     serviceSecurityGroup: SecurityGroup,
-    path: string
+    routing: ServiceRouting,
+    service: ServiceConfig,
+    // Has to be done before the service gets created or updated, e.g. a migration
+    dependsOn: ITerraformDependable[] = []
   ) {
-    // Define Load Balancer target group with a health check on /ready
-    const targetGroup = new LbTargetGroup(this, `target-group`, {
+    const tags = this.config.tags;
+    const {
+      path,
+      hostHeader,
+      healthCheckPath = "/ready",
+      containerPort = 80,
+    } = routing;
+    if (!path && !hostHeader) {
+      throw new Error(
+        `Service ${name} needs a path or a host header to be routed to`
+      );
+    }
+    const priority = routing.priority ?? this.nextPriority;
+    this.nextPriority = Math.max(this.nextPriority, priority) + 10;
+    const deployment = service.deployment ?? { type: "rolling" };
+    const blueGreen = deployment.type === "blue-green";
+    const capacityProviderStrategy = this.cluster.capacityProviderStrategy(
+      service.capacityProviderStrategy,
+      service.cpuArchitecture
+    );
+
+    // only allow incoming traffic from our load balancer, on the port of this service
+    new SecurityGroupRule(this, `${name}-ingress`, {
+      type: "ingress",
+      description: `${this.config.name}-${name} from the load balancer`,
+      securityGroupId: serviceSecurityGroup.id,
+      protocol: "TCP",
+      fromPort: containerPort,
+      toPort: containerPort,
+      sourceSecurityGroupId: this.securityGroup.id,
+    });
+
+    // Define Load Balancer target group with a health check
+    const targetGroup = new LbTargetGroup(this, `${name}-target-group`, {
       dependsOn: [this.lbl],
       tags,
-      name: `${name}-target-group`,
-      port: 80,
+      name: lbName(`${this.config.name}-${name}-tg`),
+      port: containerPort,
       protocol: "HTTP",
       targetType: "ip",
       vpcId: Fn.tostring(this.vpc.vpcIdOutput),
       healthCheck: {
         enabled: true,
-        path: "/ready",
+        path: healthCheckPath,
       },
     });
 
-    // Makes the listener forward requests from subpath to the target group
-    new LbListenerRule(this, `rule`, {
+    // Makes the listener forward requests from subpath and / or host to the target group
+    new LbListenerRule(this, `${name}-rule`, {
       listenerArn: this.lbl.arn,
-      priority: 100,
+      priority,
       tags,
       action: [
         {
@@ -402,170 +1093,463 @@ class LoadBalancer extends Construct {
       ],
 
       condition: [
-        {
-          pathPattern: { values: [`${path}*`] },
-        },
+        ...(path ? [{ pathPattern: { values: [`${path}*`] } }] : []),
+        ...(hostHeader ? [{ hostHeader: { values: [hostHeader] } }] : []),
       ],
+      // CodeDeploy switches the target group on every deployment
+      lifecycle: blueGreen ? { ignoreChanges: ["action"] } : undefined,
     });
 
     // Ensure the task is running and wired to the target group, within the right security group
-    new EcsService(this, `service`, {
-      dependsOn: [this.lbl],
+    const ecsService = new EcsService(this, `${name}-service`, {
+      dependsOn: [this.lbl, ...dependsOn],
       tags,
       name,
-      launchType: "FARGATE",
-      cluster: this.cluster.id,
-      desiredCount: 1,
+      // Switching from a launch type to a strategy replaces the service once
+      capacityProviderStrategy,
+      cluster: this.cluster.cluster.id,
+      desiredCount: service.desiredCount,
       taskDefinition: task.arn,
       networkConfiguration: {
-        subnets: Fn.tolist(this.vpc.publicSubnetsOutput),
-        assignPublicIp: true,
+        subnets: Fn.tolist(
+          service.publicSubnets
+            ? this.vpc.publicSubnetsOutput
+            : this.vpc.privateSubnetsOutput
+        ),
+        assignPublicIp: service.publicSubnets ?? false,
         securityGroups: [serviceSecurityGroup.id],
       },
       loadBalancer: [
         {
-          containerPort: 80,
+          containerPort,
           containerName: name,
           targetGroupArn: targetGroup.arn,
         },
       ],
+      deploymentController: { type: blueGreen ? "CODE_DEPLOY" : "ECS" },
+      // Rolling deployments that never get healthy are rolled back to the last working revision
+      deploymentCircuitBreaker: blueGreen
+        ? undefined
+        : { enable: true, rollback: true },
+      lifecycle: {
+        ignoreChanges: [
+          // Once autoscaling owns the task count a redeploy must not reset it
+          ...(service.autoscaling ? ["desired_count"] : []),
+          // CodeDeploy rolls out new revisions and switches the target groups
+          ...(blueGreen ? ["task_definition", "load_balancer"] : []),
+        ],
+      },
     });
+
+    const observed = { name, service: ecsService, targetGroups: [targetGroup] };
+    this.services.push(observed);
+
+    if (deployment.type === "blue-green") {
+      // The second target group receives the new tasks during a deployment
+      const greenTargetGroup = new LbTargetGroup(
+        this,
+        `${name}-target-group-green`,
+        {
+          dependsOn: [this.lbl],
+          tags,
+          name: lbName(`${this.config.name}-${name}-tg-green`),
+          port: containerPort,
+          protocol: "HTTP",
+          targetType: "ip",
+          vpcId: Fn.tostring(this.vpc.vpcIdOutput),
+          healthCheck: {
+            enabled: true,
+            path: healthCheckPath,
+          },
+        }
+      );
+      observed.targetGroups.push(greenTargetGroup);
+
+      // Lets us reach the new tasks before they get production traffic, only from within the VPC
+      const testListenerPort = deployment.testListenerPort ?? 8080;
+      this.allowIngress(testListenerPort, [this.config.network.cidr]);
+      const testListener = new LbListener(this, `${name}-test-listener`, {
+        loadBalancerArn: this.lb.arn,
+        port: testListenerPort,
+        protocol: this.certificateArn ? "HTTPS" : "HTTP",
+        sslPolicy: this.certificateArn
+          ? "ELBSecurityPolicy-TLS13-1-2-2021-06"
+          : undefined,
+        certificateArn: this.certificateArn,
+        tags,
+        defaultAction: [
+          {
+            type: "forward",
+            targetGroupArn: targetGroup.arn,
+          },
+        ],
+        // CodeDeploy points the test listener to the new tasks
+        lifecycle: { ignoreChanges: ["default_action"] },
+      });
+
+      new BlueGreenDeployment(
+        this,
+        `${name}-deployment`,
+        {
+          service: ecsService,
+          task,
+          clusterName: this.cluster.cluster.name,
+          containerName: name,
+          containerPort,
+          capacityProviderStrategy,
+          lb: this.lb,
+          targetGroups: [targetGroup, greenTargetGroup],
+          productionListener: this.lbl,
+          testListener,
+          trafficShifting: deployment.trafficShifting,
+          terminationWaitMinutes: deployment.terminationWaitMinutes,
+        },
+        this.config
+      );
+    }
+
+    if (service.autoscaling) {
+      this.autoscale(name, ecsService, targetGroup, service.autoscaling);
+    }
+  }
+
+  private allowIngress(port: number, cidrBlocks: string[]) {
+    this.ingress.push({
+      protocol: "TCP",
+      fromPort: port,
+      toPort: port,
+      cidrBlocks,
+    });
+    this.securityGroup.putIngress(this.ingress);
+  }
+
+  private autoscale(
+    name: string,
+    service: EcsService,
+    targetGroup: LbTargetGroup,
+    scaling: AutoscalingConfig
+  ) {
+    const target = new AppautoscalingTarget(this, `${name}-scaling-target`, {
+      tags: this.config.tags,
+      serviceNamespace: "ecs",
+      scalableDimension: "ecs:service:DesiredCount",
+      resourceId: `service/${this.cluster.cluster.name}/${service.name}`,
+      minCapacity: scaling.minCapacity,
+      maxCapacity: scaling.maxCapacity,
+      // With a schedule its actions own the capacity, the morning one applies changes of our limits
+      lifecycle: scaling.nightly
+        ? { ignoreChanges: ["min_capacity", "max_capacity"] }
+        : undefined,
+    });
+
+    // Each metric gets its own target tracking policy, the one asking for the most tasks wins
+    const policies: [string, number | undefined, string, string?][] = [
+      ["cpu", scaling.targetCpuUtilization, "ECSServiceAverageCPUUtilization"],
+      [
+        "memory",
+        scaling.targetMemoryUtilization,
+        "ECSServiceAverageMemoryUtilization",
+      ],
+      [
+        "requests",
+        scaling.targetRequestsPerTarget,
+        "ALBRequestCountPerTarget",
+        `${this.lb.arnSuffix}/${targetGroup.arnSuffix}`,
+      ],
+    ];
+
+    policies.forEach(([metric, targetValue, metricType, resourceLabel]) => {
+      if (targetValue === undefined) {
+        return;
+      }
+
+      new AppautoscalingPolicy(this, `${name}-scaling-policy-${metric}`, {
+        name: `${this.config.name}-${name}-${metric}`,
+        policyType: "TargetTrackingScaling",
+        serviceNamespace: target.serviceNamespace,
+        scalableDimension: target.scalableDimension,
+        resourceId: target.resourceId,
+        targetTrackingScalingPolicyConfiguration: {
+          targetValue,
+          // scale out fast, scale in slowly to avoid flapping
+          scaleOutCooldown: 60,
+          scaleInCooldown: 300,
+          predefinedMetricSpecification: {
+            predefinedMetricType: metricType,
+            resourceLabel,
+          },
+        },
+      });
+    });
+
+    if (scaling.nightly) {
+      const { nightly } = scaling;
+      const scaleIn = new AppautoscalingScheduledAction(
+        this,
+        `${name}-scale-in-at-night`,
+        {
+          name: `${this.config.name}-${name}-scale-in-at-night`,
+          serviceNamespace: target.serviceNamespace,
+          scalableDimension: target.scalableDimension,
+          resourceId: target.resourceId,
+          schedule: nightly.scaleInSchedule,
+          timezone: nightly.timezone,
+          scalableTargetAction: {
+            minCapacity: String(nightly.minCapacity),
+            maxCapacity: String(nightly.maxCapacity),
+          },
+        }
+      );
+
+      new AppautoscalingScheduledAction(
+        this,
+        `${name}-scale-out-in-the-morning`,
+        {
+          // scheduled actions on the same target can not be updated concurrently
+          dependsOn: [scaleIn],
+          name: `${this.config.name}-${name}-scale-out-in-the-morning`,
+          serviceNamespace: target.serviceNamespace,
+          scalableDimension: target.scalableDimension,
+          resourceId: target.resourceId,
+          schedule: nightly.scaleOutSchedule,
+          timezone: nightly.timezone,
+          scalableTargetAction: {
+            minCapacity: String(scaling.minCapacity),
+            maxCapacity: String(scaling.maxCapacity),
+          },
+        }
+      );
+    }
   }
 }
 
 class PublicS3Bucket extends Construct {
   bucket: S3Bucket;
+  // Only set for private buckets, CloudFront signs its requests with it
+  originAccessControl?: CloudfrontOriginAccessControl;
+  content: AssetDeployment;
 
-  constructor(scope: Construct, name: string, absoluteContentPath: string) {
+  constructor(
+    scope: Construct,
+    name: string,
+    absoluteContentPath: string,
+    config: EnvironmentConfig
+  ) {
     super(scope, name);
-    // Get built context into the terraform context
-    const { path: contentPath, assetHash: contentHash } = new TerraformAsset(
-      this,
-      `context`,
-      {
-        path: absoluteContentPath,
-      }
-    );
+    const tags = config.tags;
+    const { privateBucket, precompress } = config.frontend;
 
     // Create bucket
     this.bucket = new S3Bucket(this, `bucket`, {
       bucketPrefix: `${name}`,
 
-      tags: {
-        ...tags,
-        "hc-internet-facing": "true", // this is only needed for HashiCorp internal security auditing
-      },
+      tags: privateBucket
+        ? tags
+        : {
+            ...tags,
+            "hc-internet-facing": "true", // this is only needed for HashiCorp internal security auditing
+          },
     });
 
-    // Enable website delivery
-    new S3BucketWebsiteConfiguration(this, `website-configuration`, {
-      bucket: this.bucket.bucket,
+    new S3BucketServerSideEncryptionConfigurationA(this, `encryption`, {
+      bucket: this.bucket.id,
+      rule: [
+        {
+          applyServerSideEncryptionByDefault: { sseAlgorithm: "AES256" },
+        },
+      ],
+    });
 
-      indexDocument: {
-        suffix: "index.html",
-      },
+    if (privateBucket) {
+      // Nothing in this bucket can ever be made public
+      new S3BucketPublicAccessBlock(this, `public-access-block`, {
+        bucket: this.bucket.id,
+        blockPublicAcls: true,
+        blockPublicPolicy: true,
+        ignorePublicAcls: true,
+        restrictPublicBuckets: true,
+      });
 
-      errorDocument: {
-        key: "index.html", // we could put a static error page here
-      },
-    });
+      this.originAccessControl = new CloudfrontOriginAccessControl(
+        this,
+        `origin-access-control`,
+        {
+          name: `${config.name}-${name}`,
+          description: `CloudFront access to the ${name} bucket`,
+          originAccessControlOriginType: "s3",
+          signingBehavior: "always",
+          signingProtocol: "sigv4",
+        }
+      );
+    } else {
+      // Enable website delivery
+      new S3BucketWebsiteConfiguration(this, `website-configuration`, {
+        bucket: this.bucket.bucket,
 
-    // Get all build files synchronously
-    const files = glob("**/*.{json,js,html,png,ico,txt,map,css}", {
-      cwd: absoluteContentPath,
-    });
+        indexDocument: {
+          suffix: "index.html",
+        },
 
-    files.forEach((f) => {
-      // Construct the local path to the file
-      const filePath = path.join(contentPath, f);
+        errorDocument: {
+          key: "index.html", // we could put a static error page here
+        },
+      });
+    }
 
-      // Creates all the files in the bucket
-      new S3Object(this, `${name}/${f}/${contentHash}`, {
+    // Uploads every file of the build, hashed assets can be cached forever
+    this.content = new AssetDeployment(
+      this,
+      `content`,
+      this.bucket,
+      absoluteContentPath,
+      { precompress },
+      config
+    );
+
+    if (!privateBucket) {
+      // allow read access to all elements within the S3Bucket
+      new S3BucketPolicy(this, `s3-policy`, {
         bucket: this.bucket.id,
-        tags,
-        key: f,
-        source: filePath,
-        // mime is an open source node.js tool to get mime types per extension
-        contentType: mime(path.extname(f)) || "text/html",
-        etag: `filemd5("${filePath}")`,
+        policy: new PolicyDocument(`${name}-public-website`)
+          .allow(
+            ["s3:GetObject"],
+            [`${this.bucket.arn}/*`, `${this.bucket.arn}`],
+            { Sid: "PublicRead", Principal: "*" }
+          )
+          .toJson(),
       });
-    });
+    }
+  }
+
+  // How CloudFront reaches the content of this bucket
+  origin(originId: string): CloudfrontDistributionOrigin {
+    if (this.originAccessControl) {
+      return {
+        originId,
+        domainName: this.bucket.bucketRegionalDomainName,
+        originAccessControlId: this.originAccessControl.id,
+      };
+    }
+
+    return {
+      originId,
+      domainName: this.bucket.websiteEndpoint, // we serve the website hosted by S3 here
+      customOriginConfig: {
+        originProtocolPolicy: "http-only", // the CDN terminates the SSL connection, we can use http internally
+        httpPort: 80,
+        httpsPort: 443,
+        originSslProtocols: ["TLSv1.2"],
+      },
+    };
+  }
+
+  // Lets e.g. a task role read the content
+  grantRead(grantee: IGrantable) {
+    grantee.grant(["s3:ListBucket"], [this.bucket.arn]);
+    grantee.grant(["s3:GetObject"], [`${this.bucket.arn}/*`]);
+  }
+
+  // A private bucket is only readable by the given distribution, a public one by everyone anyway
+  allowDistribution(distributionArn: string) {
+    if (!this.originAccessControl) {
+      return;
+    }
 
-    // allow read access to all elements within the S3Bucket
     new S3BucketPolicy(this, `s3-policy`, {
       bucket: this.bucket.id,
-      policy: JSON.stringify({
-        Version: "2012-10-17",
-        Id: `${name}-public-website`,
-        Statement: [
-          {
-            Sid: "PublicRead",
-            Effect: "Allow",
-            Principal: "*",
-            Action: ["s3:GetObject"],
-            Resource: [`${this.bucket.arn}/*`, `${this.bucket.arn}`],
+      policy: new PolicyDocument(`${this.node.id}-cloudfront`)
+        .allow(["s3:GetObject"], [`${this.bucket.arn}/*`], {
+          Sid: "CloudFrontRead",
+          Principal: { Service: "cloudfront.amazonaws.com" },
+          Condition: {
+            StringEquals: { "AWS:SourceArn": distributionArn },
           },
-        ],
-      }),
+        })
+        .toJson(),
     });
   }
-
-  get websiteEndpoint() {
-    return this.bucket.websiteEndpoint;
-  }
 }
 
-class MyStack extends TerraformStack {
-  constructor(scope: Construct, name: string) {
-    super(scope, name);
+// Every layer of an environment is a stack with its own state, e.g. "example-staging-network"
+class EnvironmentStack extends TerraformStack {
+  constructor(
+    scope: Construct,
+    layer: string,
+    protected config: EnvironmentConfig
+  ) {
+    super(scope, `example-${config.name}-${layer}`);
 
     // We need to instanciate all providers we are going to use
     new AwsProvider(this, "aws", {
-      region: REGION,
+      region: config.region,
     });
-    new NullProvider(this, "null", {});
-    new RandomProvider(this, "random", {});
 
-    const vpc = new Vpc(this, "vpc", {
-      // We use the name of the stack
-      name,
+    // One state file per layer, so that we can plan and deploy them separately
+    new S3Backend(this, {
+      bucket: stateBackend.bucket,
+      key: `${config.name}/${layer}.tfstate`,
+      region: stateBackend.region,
+      dynamodbTable: stateBackend.lockTable,
+      encrypt: true,
+    });
+
+    // Validates every resource of this stack during synth
+    Aspects.of(this).add(
+      new PolicyValidation(
+        defaultPolicies(Object.keys(config.tags)),
+        POLICY_EXCEPTIONS
+      )
+    );
+  }
+
+  protected hostedZone() {
+    const { domain } = this.config;
+    return domain
+      ? new DataAwsRoute53Zone(this, "zone", { name: domain.zoneName })
+      : undefined;
+  }
+}
+
+class NetworkStack extends EnvironmentStack {
+  vpc: Vpc;
+  // The services run in this group, the load balancer and the database allow traffic from it
+  serviceSecurityGroup: SecurityGroup;
+  // Shared by the internal services to reach the database, only exists if there are any
+  internalServiceSecurityGroup?: SecurityGroup;
+
+  constructor(scope: Construct, config: EnvironmentConfig) {
+    super(scope, "network", config);
+    const tags = config.tags;
+
+    this.vpc = new Vpc(this, "vpc", {
+      // We use the name of the environment
+      name: `example-${config.name}`,
       // We tag every resource with the same set of tags to easily identify the resources
       tags,
-      cidr: "10.0.0.0/16",
-      // We want to run on three availability zones
-      azs: ["a", "b", "c"].map((i) => `${REGION}${i}`),
-      // We need three CIDR blocks as we have three availability zones
-      privateSubnets: ["10.0.1.0/24", "10.0.2.0/24", "10.0.3.0/24"],
-      publicSubnets: ["10.0.101.0/24", "10.0.102.0/24", "10.0.103.0/24"],
-      databaseSubnets: ["10.0.201.0/24", "10.0.202.0/24", "10.0.203.0/24"],
+      cidr: config.network.cidr,
+      azs: config.network.azs.map((i) => `${config.region}${i}`),
+      privateSubnets: config.network.privateSubnets,
+      publicSubnets: config.network.publicSubnets,
+      databaseSubnets: config.network.databaseSubnets,
       createDatabaseSubnetGroup: true,
       enableNatGateway: true,
-      // Using a single NAT Gateway will save us some money, coming with the cost of less redundancy
-      singleNatGateway: true,
+      singleNatGateway: config.network.singleNatGateway,
+      // Required for the private DNS names of VPC endpoints
+      enableDnsHostnames: true,
+      enableDnsSupport: true,
     });
 
-    const cluster = new Cluster(this, "cluster");
-    const loadBalancer = new LoadBalancer(
-      this,
-      "loadbalancer",
-      vpc,
-      cluster.cluster
-    );
-    const serviceSecurityGroup = new SecurityGroup(
+    if (config.network.vpcEndpoints) {
+      new VpcEndpoints(this, "vpc-endpoints", this.vpc, config);
+    }
+
+    // The ingress from the load balancer is added by the compute stack, which owns the load balancer
+    this.serviceSecurityGroup = new SecurityGroup(
       this,
       `service-security-group`,
       {
-        vpcId: Fn.tostring(vpc.vpcIdOutput),
+        vpcId: Fn.tostring(this.vpc.vpcIdOutput),
         tags,
-        ingress: [
-          // only allow incoming traffic from our load balancer
-          {
-            protocol: "TCP",
-            fromPort: 80,
-            toPort: 80,
-            securityGroups: loadBalancer.lb.securityGroups,
-          },
-        ],
         egress: [
           // allow all outgoing traffic
           {
@@ -579,126 +1563,416 @@ class MyStack extends TerraformStack {
       }
     );
 
-    const db = new PostgresDB(
+    // Has no ingress, so that internal services can't call each other unless they are allowed to
+    if (config.internalServices?.length) {
+      this.internalServiceSecurityGroup = new SecurityGroup(
+        this,
+        `internal-service-security-group`,
+        {
+          vpcId: Fn.tostring(this.vpc.vpcIdOutput),
+          tags,
+          egress: [
+            // allow all outgoing traffic
+            {
+              fromPort: 0,
+              toPort: 0,
+              protocol: "-1",
+              cidrBlocks: ["0.0.0.0/0"],
+              ipv6CidrBlocks: ["::/0"],
+            },
+          ],
+        }
+      );
+    }
+  }
+}
+
+class DataStack extends EnvironmentStack {
+  db: PostgresDB;
+
+  constructor(
+    scope: Construct,
+    config: EnvironmentConfig,
+    network: NetworkStack
+  ) {
+    super(scope, "data", config);
+    new RandomProvider(this, "random", {});
+
+    this.db = new PostgresDB(
       this,
-      "dockerintegration",
+      DATABASE_NAME,
+      network.vpc,
+      [
+        network.serviceSecurityGroup,
+        ...(network.internalServiceSecurityGroup
+          ? [network.internalServiceSecurityGroup]
+          : []),
+      ],
+      config
+    );
+  }
+}
+
+class ComputeStack extends EnvironmentStack {
+  cluster: Cluster;
+  loadBalancer: LoadBalancer;
+
+  constructor(
+    scope: Construct,
+    config: EnvironmentConfig,
+    network: NetworkStack,
+    data: DataStack
+  ) {
+    super(scope, "compute", config);
+    new NullProvider(this, "null", {});
+    const { vpc, serviceSecurityGroup, internalServiceSecurityGroup } = network;
+    const { db } = data;
+    const { domain } = config;
+    const zone = this.hostedZone();
+
+    const cluster = new Cluster(this, "cluster", config, {
+      vpcId: Fn.tostring(vpc.vpcIdOutput),
+      subnets: Fn.tolist(vpc.privateSubnetsOutput),
+      securityGroups: [serviceSecurityGroup.id],
+    });
+    const backendCertificate =
+      domain && zone
+        ? new DnsValidatedCertificate(
+            this,
+            "backend-certificate",
+            domain.backendDomain,
+            zone,
+            config
+          )
+        : undefined;
+    const loadBalancer = new LoadBalancer(
+      this,
+      "loadbalancer",
       vpc,
-      serviceSecurityGroup
+      cluster,
+      config,
+      backendCertificate?.certificateArn
     );
+    this.cluster = cluster;
+    this.loadBalancer = loadBalancer;
+
+    // The image has to be built for the architecture the tasks run on
+    const { cpuArchitecture } = config.backend;
+    const runtimePlatform = cpuArchitecture && {
+      cpuArchitecture,
+      operatingSystemFamily: "LINUX",
+    };
 
-    const { image: backendImage, tag: backendTag } = new PushedECRImage(
+    // CI can build and push the image itself and only hand us the digest
+    const backendImageDigest = process.env.BACKEND_IMAGE_DIGEST;
+    const backendImage = new EcrImage(
       this,
       "backend-image",
-      path.resolve(__dirname, "../application/backend")
+      {
+        build: backendImageDigest
+          ? new PrebuiltImage(backendImageDigest)
+          : new LocalDockerBuild(
+              path.resolve(__dirname, "../application/backend"),
+              // this matters if we build on a machine of the other architecture
+              {
+                platforms: [
+                  cpuArchitecture === "ARM64" ? "linux/arm64" : "linux/amd64",
+                ],
+              }
+            ),
+      },
+      config
+    );
+
+    const connection: PostgresConnection = {
+      user: db.instance.username,
+      database: db.instance.name,
+      host: Fn.tostring(db.instance.dbInstanceAddressOutput),
+      port: Fn.tostring(db.instance.dbInstancePortOutput),
+      password: { secretArn: db.secret.arn, jsonKey: "password" },
+      readHosts: db.readEndpoints,
+      secretArn: config.database.passwordRotationDays
+        ? db.secret.arn
+        : undefined,
+    };
+    // ECS only injects the password on start, after a rotation the tasks read it themselves
+    const readsPassword = (task: EcsTaskDefinition) => {
+      if (connection.secretArn) {
+        cluster
+          .taskRole(task)
+          .grant(["secretsmanager:GetSecretValue"], [connection.secretArn]);
+      }
+      return task;
+    };
+
+    // Migrates the database once per image, before any new backend task starts
+    const migrationTask = readsPassword(
+      cluster.runDockerImage("backend-migrate", backendImage, {
+        cpu: 256,
+        memory: 512,
+        runtimePlatform,
+        ...backendMigrationContainer(connection),
+      })
     );
+    const migration = cluster.runTaskOnce("backend-migrate", migrationTask, {
+      subnets: Fn.tolist(vpc.privateSubnetsOutput),
+      securityGroups: [serviceSecurityGroup.id],
+      cpuArchitecture,
+      timeoutMinutes: config.database.migrationTimeoutMinutes,
+    });
 
-    const task = cluster.runDockerImage("backend", backendTag, backendImage, {
-      PORT: "80",
-      POSTGRES_USER: db.instance.username,
-      POSTGRES_PASSWORD: db.instance.password,
-      POSTGRES_DB: db.instance.name,
-      POSTGRES_HOST: Fn.tostring(db.instance.dbInstanceAddressOutput),
-      POSTGRES_PORT: Fn.tostring(db.instance.dbInstancePortOutput),
+    // Every job gets its own task definition and log group
+    (config.jobs || []).forEach((job) => {
+      const jobTask = readsPassword(
+        cluster.runDockerImage(
+          `job-${job.name}`,
+          backendImage,
+          {
+            cpu: job.cpu,
+            memory: job.memory,
+            runtimePlatform,
+            ...backendJobContainer(connection, job.command),
+          },
+          // the rule always starts the latest revision, it must not exist before the schema does
+          [migration]
+        )
+      );
+      cluster.runScheduledTask(`job-${job.name}`, jobTask, job.trigger, {
+        cpuArchitecture,
+      });
+    });
+
+    // Internal services only accept the callers declared in their config
+    const internalServices = new Map<string, InternalService>();
+    (config.internalServices || []).forEach((internal) => {
+      const { port = 80 } = internal;
+      const internalTask = readsPassword(
+        cluster.runDockerImage(
+          `internal-${internal.name}`,
+          backendImage,
+          {
+            cpu: internal.cpu,
+            memory: internal.memory,
+            runtimePlatform,
+            ...backendInternalServiceContainer(
+              connection,
+              internal.command,
+              port
+            ),
+          },
+          [migration]
+        )
+      );
+      internalServices.set(
+        internal.name,
+        cluster.runInternalService(internal.name, internalTask, {
+          desiredCount: internal.desiredCount,
+          capacityProviderStrategy: internal.capacityProviderStrategy,
+          cpuArchitecture,
+          port,
+          securityGroups: internalServiceSecurityGroup
+            ? [internalServiceSecurityGroup.id]
+            : [],
+        })
+      );
     });
+    (config.internalServices || []).forEach(({ name, callers }) =>
+      callers.forEach((caller) => {
+        // the backend, its jobs and migrations share the service security group
+        const callerSecurityGroup =
+          caller === "backend"
+            ? serviceSecurityGroup.id
+            : internalServices.get(caller)?.securityGroup.id;
+        if (!callerSecurityGroup) {
+          throw new Error(
+            `Internal service ${name} allows the unknown caller ${caller}`
+          );
+        }
+        internalServices.get(name)!.allowFrom(caller, callerSecurityGroup);
+      })
+    );
+
+    const task = readsPassword(
+      cluster.runDockerImage("backend", backendImage, {
+        cpu: config.backend.cpu,
+        memory: config.backend.memory,
+        runtimePlatform,
+        ...backendContainer(connection),
+      })
+    );
     loadBalancer.exposeService(
       "backend",
       task,
       serviceSecurityGroup,
-      "/backend"
+      { path: "/backend", healthCheckPath: "/ready" },
+      config.backend,
+      [migration]
     );
 
+    if (domain && zone) {
+      // Point our backend domain to the load balancer
+      new Route53Record(this, "backend-record", {
+        zoneId: zone.zoneId,
+        name: domain.backendDomain,
+        type: "A",
+        alias: {
+          name: loadBalancer.lb.dnsName,
+          zoneId: loadBalancer.lb.zoneId,
+          evaluateTargetHealth: false,
+        },
+      });
+    }
+  }
+}
+
+class EdgeStack extends EnvironmentStack {
+  constructor(
+    scope: Construct,
+    config: EnvironmentConfig,
+    data: DataStack,
+    compute: ComputeStack
+  ) {
+    super(scope, "edge", config);
+    new NullProvider(this, "null", {});
+    // CloudFront certificates and metrics only exist in us-east-1
+    const globalProvider = new AwsProvider(this, "aws-us-east-1", {
+      region: "us-east-1",
+      alias: "us-east-1",
+    });
+    const { db } = data;
+    const { cluster, loadBalancer } = compute;
+    const { domain } = config;
+    const zone = this.hostedZone();
+
     const bucket = new PublicS3Bucket(
       this,
-      name,
-      path.resolve(__dirname, "../application/frontend/build")
+      `example-${config.name}`,
+      path.resolve(__dirname, "../application/frontend/build"),
+      config
     );
 
-    const cdn = new CloudfrontDistribution(this, "cf", {
-      comment: `Docker example frontend`,
-      tags,
-      enabled: true,
-      defaultCacheBehavior: {
-        // Allow every method as we want to also serve the backend through this
-        allowedMethods: [
-          "DELETE",
-          "GET",
-          "HEAD",
-          "OPTIONS",
-          "PATCH",
-          "POST",
-          "PUT",
-        ],
-        cachedMethods: ["GET", "HEAD"],
-        targetOriginId: S3_ORIGIN_ID,
-        viewerProtocolPolicy: "redirect-to-https", // ensure we serve https
-        forwardedValues: { queryString: true, cookies: { forward: "none" } },
-      },
+    const frontendCertificate =
+      domain && zone
+        ? new DnsValidatedCertificate(
+            this,
+            "frontend-certificate",
+            domain.frontendDomain,
+            zone,
+            config,
+            globalProvider
+          )
+        : undefined;
 
-      // origins describe different entities that can serve traffic
-      origin: [
-        {
-          originId: S3_ORIGIN_ID, // origin ids can be freely chosen
-          domainName: bucket.websiteEndpoint, // we serve the website hosted by S3 here
-          customOriginConfig: {
-            originProtocolPolicy: "http-only", // the CDN terminates the SSL connection, we can use http internally
-            httpPort: 80,
-            httpsPort: 443,
-            originSslProtocols: ["TLSv1.2", "TLSv1.1", "TLSv1"],
-          },
-        },
-        {
-          originId: BACKEND_ORIGIN_ID,
-          domainName: loadBalancer.lb.dnsName, // our backend is served by the load balancer
-          customOriginConfig: {
-            originProtocolPolicy: "http-only",
-            httpPort: 80,
-            httpsPort: 443,
-            originSslProtocols: ["TLSv1.2", "TLSv1.1", "TLSv1"],
+    const waf = config.waf
+      ? new WebApplicationFirewall(
+          this,
+          "waf",
+          { rateLimitedPath: "/backend/", provider: globalProvider },
+          config.waf,
+          config
+        )
+      : undefined;
+
+    const cdn = new Cdn(
+      this,
+      "cdn",
+      {
+        comment: `Docker example frontend`,
+        // origins describe different entities that can serve traffic
+        origins: [
+          bucket.origin(S3_ORIGIN_ID), // origin ids can be freely chosen
+          {
+            originId: BACKEND_ORIGIN_ID,
+            // our backend is served by the load balancer, with a domain we can talk HTTPS to it
+            domainName: domain ? domain.backendDomain : loadBalancer.lb.dnsName,
+            customOriginConfig: {
+              originProtocolPolicy: domain ? "https-only" : "http-only",
+              httpPort: 80,
+              httpsPort: 443,
+              originSslProtocols: ["TLSv1.2"],
+            },
           },
+        ],
+        defaultBehavior: {
+          originId: S3_ORIGIN_ID,
+          cachePolicy: { managed: "Managed-CachingOptimized" },
+          viewerRequestFunctionArn: bucket.content.encodingFunction?.arn,
         },
-      ],
-      // We define everything that should not be served by the default here
-      orderedCacheBehavior: [
-        {
-          allowedMethods: [
-            "HEAD",
-            "DELETE",
-            "POST",
-            "GET",
-            "OPTIONS",
-            "PUT",
-            "PATCH",
-          ],
-          cachedMethods: ["HEAD", "GET"],
-          pathPattern: "/backend/*", // our backend should be served under /backend
-          targetOriginId: BACKEND_ORIGIN_ID,
-          // low TTLs so that the cache is busted relatively quickly
-          minTtl: 0,
-          defaultTtl: 10,
-          maxTtl: 50,
-          viewerProtocolPolicy: "redirect-to-https",
-          // currently our backend needs none of this, but it could potentially use any of these now
-          forwardedValues: {
-            queryString: true,
-            headers: ["*"],
-            cookies: {
-              forward: "all",
+        // We define everything that should not be served by the default here
+        behaviors: [
+          {
+            pathPattern: "/backend/*", // our backend should be served under /backend
+            originId: BACKEND_ORIGIN_ID,
+            // low TTLs so that the cache is busted relatively quickly
+            cachePolicy: {
+              minTtl: 0,
+              defaultTtl: 10,
+              maxTtl: 50,
+              queryStrings: true,
             },
+            // headers and cookies still reach the backend, they are just not part of the cache key
+            originRequestPolicy: "Managed-AllViewerExceptHostHeader",
+            allowWrites: true,
           },
+        ],
+        defaultRootObject: "index.html",
+        // A private bucket has no website error document, so we route unknown paths to our single page app here
+        spaFallback: config.frontend.privateBucket ? "/index.html" : undefined,
+        aliases: domain ? [domain.frontendDomain] : undefined,
+        certificateArn: frontendCertificate?.certificateArn,
+        webAclId: waf?.webAcl.arn,
+        invalidation: {
+          trigger: bucket.content.contentHash,
+          dependsOn: [bucket.content.upload],
         },
-      ],
-      defaultRootObject: "index.html",
-      restrictions: { geoRestriction: { restrictionType: "none" } },
-      viewerCertificate: { cloudfrontDefaultCertificate: true }, // we use the default SSL Certificate
-    });
+      },
+      config
+    );
+
+    bucket.allowDistribution(cdn.arn);
+
+    new Observability(
+      this,
+      "observability",
+      {
+        lb: loadBalancer.lb,
+        cluster: cluster.cluster,
+        services: loadBalancer.services,
+        databaseIdentifier: db.identifier,
+        distribution: cdn.distribution,
+        globalProvider,
+      },
+      config
+    );
+
+    if (domain && zone) {
+      // Point our frontend domain to the CDN
+      new Route53Record(this, "frontend-record", {
+        zoneId: zone.zoneId,
+        name: domain.frontendDomain,
+        type: "A",
+        alias: {
+          name: cdn.domainName,
+          zoneId: cdn.hostedZoneId,
+          evaluateTargetHealth: false,
+        },
+      });
+    }
 
     // Prints the domain name that serves our application
     new TerraformOutput(this, "domainName", {
-      value: cdn.domainName,
+      value: domain ? domain.frontendDomain : cdn.domainName,
     });
   }
 }
 
 const app = new App();
-new MyStack(app, "example-staging");
+new BootstrapStack(app, "example-bootstrap", stateBackend);
+// Every environment gets its own stacks, e.g. "example-staging-network", which can be deployed one at a time
+getEnvironments().forEach((config) => {
+  const network = new NetworkStack(app, config);
+  const data = new DataStack(app, config, network);
+  const compute = new ComputeStack(app, config, network, data);
+  new EdgeStack(app, config, data, compute);
+});
 app.synth();
@@ -0,0 +1,383 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { Construct } from "constructs";
+import { TerraformProvider } from "cdktf";
+import {
+  CloudwatchMetricAlarm,
+  CloudwatchMetricAlarmConfig,
+} from "@cdktf/provider-aws/lib/cloudwatch-metric-alarm";
+import { CloudwatchDashboard } from "@cdktf/provider-aws/lib/cloudwatch-dashboard";
+import { CloudfrontDistribution } from "@cdktf/provider-aws/lib/cloudfront-distribution";
+import { EcsCluster } from "@cdktf/provider-aws/lib/ecs-cluster";
+import { EcsService } from "@cdktf/provider-aws/lib/ecs-service";
+import { Lb } from "@cdktf/provider-aws/lib/lb";
+import { LbTargetGroup } from "@cdktf/provider-aws/lib/lb-target-group";
+import { SnsTopic } from "@cdktf/provider-aws/lib/sns-topic";
+import { SnsTopicSubscription } from "@cdktf/provider-aws/lib/sns-topic-subscription";
+import { EnvironmentConfig } from "./config";
+
+// A service behind the load balancer, blue/green services have two target groups
+export interface ObservedService {
+  name: string;
+  service: EcsService;
+  targetGroups: LbTargetGroup[];
+}
+
+export interface ObservabilityProps {
+  lb: Lb;
+  cluster: EcsCluster;
+  services: ObservedService[];
+  // RDS instance identifier
+  databaseIdentifier: string;
+  distribution?: CloudfrontDistribution;
+  // CloudFront only publishes its metrics in us-east-1, so its alarm has to live there as well
+  globalProvider?: TerraformProvider;
+}
+
+type AlarmProps = Omit<
+  CloudwatchMetricAlarmConfig,
+  "alarmName" | "alarmActions" | "okActions" | "tags" | "provider"
+>;
+
+type Widget = { title: string; metrics: unknown[][]; region?: string };
+
+// Alarms and a dashboard for everything that serves our application, alarms are sent to an SNS topic
+export class Observability extends Construct {
+  topic: SnsTopic;
+  private prefix: string;
+  private config: EnvironmentConfig;
+  private widgets: Widget[] = [];
+
+  constructor(
+    scope: Construct,
+    name: string,
+    props: ObservabilityProps,
+    config: EnvironmentConfig
+  ) {
+    super(scope, name);
+    this.prefix = `${config.name}-${name}`;
+    this.config = config;
+    const {
+      maxErrorRate = 5,
+      maxResponseTime = 1,
+      maxDbConnections = 80,
+    } = config.monitoring;
+
+    this.topic = this.alertTopic("alerts");
+
+    const lb = { LoadBalancer: props.lb.arnSuffix };
+    this.alarm(
+      "alb-5xx-rate",
+      {
+        alarmDescription: `More than ${maxErrorRate}% of the requests fail with server errors`,
+        comparisonOperator: "GreaterThanThreshold",
+        threshold: maxErrorRate,
+        evaluationPeriods: 3,
+        // Without requests there is no rate, which is not a failure
+        treatMissingData: "notBreaching",
+        metricQuery: [
+          {
+            id: "rate",
+            // The 5xx counts have no datapoints while they are zero, without FILL a single one of them would leave the sum empty
+            expression: "100 * (FILL(target, 0) + FILL(elb, 0)) / requests",
+            label: "5xx rate",
+            returnData: true,
+          },
+          ...[
+            ["target", "HTTPCode_Target_5XX_Count"],
+            ["elb", "HTTPCode_ELB_5XX_Count"],
+            ["requests", "RequestCount"],
+          ].map(([id, metricName]) => ({
+            id,
+            metric: {
+              namespace: "AWS/ApplicationELB",
+              metricName,
+              dimensions: lb,
+              period: 60,
+              stat: "Sum",
+            },
+          })),
+        ],
+      },
+      [
+        "Load balancer",
+        [
+          [
+            "AWS/ApplicationELB",
+            "RequestCount",
+            "LoadBalancer",
+            lb.LoadBalancer,
+          ],
+          [".", "HTTPCode_Target_5XX_Count", ".", "."],
+          [".", "HTTPCode_ELB_5XX_Count", ".", "."],
+        ],
+      ]
+    );
+
+    this.alarm(
+      "target-response-time",
+      {
+        alarmDescription: `The p95 response time is above ${maxResponseTime}s`,
+        namespace: "AWS/ApplicationELB",
+        metricName: "TargetResponseTime",
+        dimensions: lb,
+        extendedStatistic: "p95",
+        period: 60,
+        evaluationPeriods: 5,
+        threshold: maxResponseTime,
+        comparisonOperator: "GreaterThanThreshold",
+      },
+      [
+        "Response time",
+        [
+          [
+            "AWS/ApplicationELB",
+            "TargetResponseTime",
+            "LoadBalancer",
+            lb.LoadBalancer,
+            { stat: "p95" },
+          ],
+        ],
+      ]
+    );
+
+    props.services.forEach(({ name, service, targetGroups }) => {
+      targetGroups.forEach((targetGroup, i) =>
+        this.alarm(
+          `${name}-unhealthy-hosts-${i}`,
+          {
+            alarmDescription: `The ${name} tasks fail their health check`,
+            namespace: "AWS/ApplicationELB",
+            metricName: "UnHealthyHostCount",
+            dimensions: { ...lb, TargetGroup: targetGroup.arnSuffix },
+            statistic: "Maximum",
+            period: 60,
+            evaluationPeriods: 3,
+            threshold: 0,
+            comparisonOperator: "GreaterThanThreshold",
+          },
+          [
+            `${name} targets`,
+            [
+              [
+                "AWS/ApplicationELB",
+                "HealthyHostCount",
+                "TargetGroup",
+                targetGroup.arnSuffix,
+                "LoadBalancer",
+                lb.LoadBalancer,
+              ],
+              [".", "UnHealthyHostCount", ".", ".", ".", "."],
+            ],
+          ]
+        )
+      );
+
+      const dimensions = {
+        ClusterName: props.cluster.name,
+        ServiceName: service.name,
+      };
+      [
+        ["cpu", "CPUUtilization"],
+        ["memory", "MemoryUtilization"],
+      ].forEach(([resource, metricName]) =>
+        this.alarm(`${name}-${resource}`, {
+          alarmDescription: `The ${name} tasks are running out of ${resource}`,
+          namespace: "AWS/ECS",
+          metricName,
+          dimensions,
+          statistic: "Average",
+          period: 300,
+          evaluationPeriods: 2,
+          threshold: 85,
+          comparisonOperator: "GreaterThanThreshold",
+        })
+      );
+      this.widgets.push({
+        title: `${name} utilization`,
+        metrics: [
+          [
+            "AWS/ECS",
+            "CPUUtilization",
+            "ClusterName",
+            dimensions.ClusterName,
+            "ServiceName",
+            dimensions.ServiceName,
+          ],
+          [".", "MemoryUtilization", ".", ".", ".", "."],
+        ],
+      });
+    });
+
+    const db = { DBInstanceIdentifier: props.databaseIdentifier };
+    const rds = (metricName: string) => [
+      "AWS/RDS",
+      metricName,
+      "DBInstanceIdentifier",
+      db.DBInstanceIdentifier,
+    ];
+    this.alarm(
+      "db-cpu",
+      {
+        alarmDescription: "The database is running out of CPU",
+        namespace: "AWS/RDS",
+        metricName: "CPUUtilization",
+        dimensions: db,
+        statistic: "Average",
+        period: 300,
+        evaluationPeriods: 2,
+        threshold: 80,
+        comparisonOperator: "GreaterThanThreshold",
+      },
+      ["Database CPU", [rds("CPUUtilization")]]
+    );
+    this.alarm(
+      "db-free-storage",
+      {
+        alarmDescription: "Less than 10% of the database storage is left",
+        namespace: "AWS/RDS",
+        metricName: "FreeStorageSpace",
+        dimensions: db,
+        statistic: "Minimum",
+        period: 300,
+        evaluationPeriods: 1,
+        // in bytes
+        threshold: config.database.allocatedStorage * 0.1 * 1024 ** 3,
+        comparisonOperator: "LessThanThreshold",
+      },
+      ["Database storage", [rds("FreeStorageSpace")]]
+    );
+    this.alarm(
+      "db-connections",
+      {
+        alarmDescription: `More than ${maxDbConnections} open database connections`,
+        namespace: "AWS/RDS",
+        metricName: "DatabaseConnections",
+        dimensions: db,
+        statistic: "Maximum",
+        period: 300,
+        evaluationPeriods: 2,
+        threshold: maxDbConnections,
+        comparisonOperator: "GreaterThanThreshold",
+      },
+      ["Database connections", [rds("DatabaseConnections")]]
+    );
+
+    if (props.distribution) {
+      const globalProvider =
+        config.region === "us-east-1" ? undefined : props.globalProvider;
+      const dimensions = {
+        DistributionId: props.distribution.id,
+        Region: "Global",
+      };
+      this.alarm(
+        "cdn-5xx-rate",
+        {
+          alarmDescription: `More than ${maxErrorRate}% of the CDN requests fail with server errors`,
+          namespace: "AWS/CloudFront",
+          metricName: "5xxErrorRate",
+          dimensions,
+          statistic: "Average",
+          period: 300,
+          evaluationPeriods: 2,
+          threshold: maxErrorRate,
+          comparisonOperator: "GreaterThanThreshold",
+        },
+        [
+          "CDN error rate",
+          [
+            [
+              "AWS/CloudFront",
+              "5xxErrorRate",
+              "DistributionId",
+              dimensions.DistributionId,
+              "Region",
+              dimensions.Region,
+            ],
+            [".", "4xxErrorRate", ".", ".", ".", "."],
+          ],
+          "us-east-1",
+        ],
+        // Alarms can only notify topics of their own region
+        globalProvider
+          ? this.alertTopic("global-alerts", globalProvider)
+          : this.topic,
+        globalProvider
+      );
+    }
+
+    new CloudwatchDashboard(this, `dashboard`, {
+      dashboardName: this.prefix,
+      dashboardBody: JSON.stringify({
+        widgets: this.widgets.map(({ title, metrics, region }, i) => ({
+          type: "metric",
+          // two widgets per row
+          x: (i % 2) * 12,
+          y: Math.floor(i / 2) * 6,
+          width: 12,
+          height: 6,
+          properties: {
+            title,
+            metrics,
+            region: region ?? config.region,
+            view: "timeSeries",
+            stacked: false,
+            period: 300,
+          },
+        })),
+      }),
+    });
+  }
+
+  private alertTopic(id: string, provider?: TerraformProvider) {
+    const { emails, webhooks } = this.config.monitoring;
+    const topic = new SnsTopic(this, id, {
+      name: `${this.prefix}-${id}`,
+      provider,
+      tags: this.config.tags,
+    });
+
+    // Every subscriber has to confirm the subscription once
+    [
+      ...emails.map((endpoint) => ({ protocol: "email", endpoint })),
+      ...webhooks.map((endpoint) => ({ protocol: "https", endpoint })),
+    ].forEach(({ protocol, endpoint }, i) => {
+      new SnsTopicSubscription(this, `${id}-subscription-${i}`, {
+        topicArn: topic.arn,
+        protocol,
+        endpoint,
+        provider,
+      });
+    });
+
+    return topic;
+  }
+
+  private alarm(
+    id: string,
+    props: AlarmProps,
+    // title, metrics and region of the dashboard widget showing the alarm
+    widget?: [string, unknown[][], string?],
+    topic = this.topic,
+    provider?: TerraformProvider
+  ) {
+    new CloudwatchMetricAlarm(this, id, {
+      ...props,
+      alarmName: `${this.prefix}-${id}`,
+      // we also want to know once the problem is gone
+      alarmActions: [topic.arn],
+      okActions: [topic.arn],
+      treatMissingData: props.treatMissingData ?? "notBreaching",
+      provider,
+      tags: this.config.tags,
+    });
+
+    if (widget) {
+      const [title, metrics, region] = widget;
+      this.widgets.push({ title, metrics, region });
+    }
+  }
+}
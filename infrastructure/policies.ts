@@ -0,0 +1,353 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { IConstruct } from "constructs";
+import {
+  Annotations,
+  DefaultTokenResolver,
+  IAspect,
+  StringConcat,
+  TerraformModule,
+  TerraformResource,
+  TerraformStack,
+  Tokenization,
+} from "cdktf";
+
+export type Severity = "error" | "warning";
+
+// An intentional violation, e.g. the load balancer has to be reachable from everywhere
+export interface PolicyException {
+  rule: string;
+  // Construct path within the stack, e.g. "loadbalancer/lb-security-group"
+  path: string;
+  // Shows up in code review, so that we know why the exception exists
+  reason: string;
+}
+
+// A resource or module with the attributes that end up in the Terraform JSON
+export interface SynthesizedElement {
+  node: TerraformResource | TerraformModule;
+  // The resource type or the module source
+  type: string;
+  // Unset optional attributes are written as null, rules cast to the attributes of the types they check
+  attributes: Record<string, unknown>;
+}
+
+// The parts of the Terraform JSON our rules look at
+type CidrBlocks = string[] | null | undefined;
+
+interface IngressAttributes {
+  from_port: number;
+  to_port: number;
+  cidr_blocks?: CidrBlocks;
+  ipv6_cidr_blocks?: CidrBlocks;
+}
+
+interface SecurityGroupAttributes {
+  ingress?: IngressAttributes[] | null;
+}
+
+interface SecurityGroupRuleAttributes extends IngressAttributes {
+  type: "ingress" | "egress";
+}
+
+interface VpcSecurityGroupIngressRuleAttributes {
+  from_port: number;
+  to_port: number;
+  cidr_ipv4?: string | null;
+  cidr_ipv6?: string | null;
+}
+
+interface TaggedAttributes {
+  tags?: Record<string, string> | null;
+}
+
+interface PolicyAttributes {
+  // aws_iam_role
+  inline_policy?: { name?: string; policy?: string }[] | null;
+  // aws_iam_policy and the other policy resources
+  policy?: string | null;
+}
+
+interface DatabaseAttributes {
+  storage_encrypted?: boolean | null;
+}
+
+export interface PolicyRule {
+  readonly name: string;
+  readonly severity: Severity;
+  // Returns a message for every violation found on the element
+  check(element: SynthesizedElement): string[];
+}
+
+const TOKEN_RESOLVER = new DefaultTokenResolver(new StringConcat());
+
+// References to other resources are resolved to their Terraform expressions, e.g. "${aws_s3_bucket.bucket.id}"
+function resolve(node: IConstruct, value: unknown) {
+  return Tokenization.resolve(value, {
+    scope: node,
+    preparing: false,
+    resolver: TOKEN_RESOLVER,
+  });
+}
+
+function synthesize(node: IConstruct): SynthesizedElement | undefined {
+  if (TerraformResource.isTerraformResource(node)) {
+    const type = node.terraformResourceType;
+    const json = resolve(node, node.toTerraform());
+    return {
+      node,
+      type,
+      attributes: json.resource[type][node.friendlyUniqueId],
+    };
+  }
+
+  if (node instanceof TerraformModule) {
+    const json = resolve(node, node.toTerraform());
+    return {
+      node,
+      type: node.source,
+      attributes: json.module[node.friendlyUniqueId],
+    };
+  }
+
+  return undefined;
+}
+
+// Walks the construct tree during synth and reports every violation as an annotation, errors fail the synth
+export class PolicyValidation implements IAspect {
+  constructor(
+    private rules: PolicyRule[],
+    private exceptions: PolicyException[] = []
+  ) {}
+
+  visit(node: IConstruct) {
+    const element = synthesize(node);
+    if (!element) {
+      return;
+    }
+
+    const stackPath = TerraformStack.of(node).node.path;
+    const path = node.node.path.slice(stackPath.length + 1);
+
+    this.rules.forEach((rule) => {
+      const isException = this.exceptions.some(
+        (exception) => exception.rule === rule.name && exception.path === path
+      );
+      if (isException) {
+        return;
+      }
+
+      rule.check(element).forEach((message) => {
+        const annotation = `[${rule.name}] ${message}`;
+        if (rule.severity === "error") {
+          Annotations.of(node).addError(annotation);
+        } else {
+          Annotations.of(node).addWarning(annotation);
+        }
+      });
+    });
+  }
+}
+
+const WORLD = ["0.0.0.0/0", "::/0"];
+const isWorld = (cidrs: (string | null | undefined)[] | null | undefined) =>
+  (cidrs ?? []).some((cidr) => !!cidr && WORLD.includes(cidr));
+
+export class NoWorldOpenIngress implements PolicyRule {
+  readonly name = "no-world-open-ingress";
+
+  constructor(readonly severity: Severity = "error") {}
+
+  check({ type, attributes }: SynthesizedElement): string[] {
+    const message = (from: number, to: number) =>
+      `Ingress on ports ${from}-${to} is open to the internet`;
+
+    switch (type) {
+      case "aws_security_group": {
+        const { ingress } = attributes as SecurityGroupAttributes;
+        return (ingress ?? [])
+          .filter(
+            (rule) =>
+              isWorld(rule.cidr_blocks) || isWorld(rule.ipv6_cidr_blocks)
+          )
+          .map((rule) => message(rule.from_port, rule.to_port));
+      }
+      case "aws_security_group_rule": {
+        const rule = attributes as unknown as SecurityGroupRuleAttributes;
+        return rule.type === "ingress" &&
+          (isWorld(rule.cidr_blocks) || isWorld(rule.ipv6_cidr_blocks))
+          ? [message(rule.from_port, rule.to_port)]
+          : [];
+      }
+      case "aws_vpc_security_group_ingress_rule": {
+        const rule =
+          attributes as unknown as VpcSecurityGroupIngressRuleAttributes;
+        return isWorld([rule.cidr_ipv4, rule.cidr_ipv6])
+          ? [message(rule.from_port, rule.to_port)]
+          : [];
+      }
+      default:
+        return [];
+    }
+  }
+}
+
+export class RequiredTags implements PolicyRule {
+  readonly name = "required-tags";
+
+  constructor(
+    private keys: string[],
+    readonly severity: Severity = "warning"
+  ) {}
+
+  check({ node, attributes }: SynthesizedElement): string[] {
+    // Only resources that support tags have a tags input
+    if (!("tagsInput" in node)) {
+      return [];
+    }
+
+    const tags = (attributes as TaggedAttributes).tags ?? {};
+    const missing = this.keys.filter((key) => !tags[key]);
+    return missing.length ? [`Missing tags: ${missing.join(", ")}`] : [];
+  }
+}
+
+interface PolicyStatement {
+  Effect: string;
+  Action?: string | string[];
+  Resource?: string | string[];
+}
+
+// Collects the statements of every policy document attached by the resource
+function policyStatements(
+  type: string,
+  attributes: PolicyAttributes
+): PolicyStatement[] {
+  const documents =
+    type === "aws_iam_role"
+      ? (attributes.inline_policy ?? []).map(({ policy }) => policy)
+      : [
+          "aws_iam_policy",
+          "aws_iam_role_policy",
+          "aws_iam_user_policy",
+          "aws_iam_group_policy",
+        ].includes(type)
+      ? [attributes.policy]
+      : [];
+
+  return (
+    documents
+      // e.g. the empty inline policy of a role without permissions
+      .filter((document): document is string => !!document)
+      .map((document) => {
+        try {
+          const { Statement = [] } = JSON.parse(document);
+          return ([] as PolicyStatement[]).concat(Statement);
+        } catch (e) {
+          // documents built with Terraform functions can only be checked after apply
+          return [];
+        }
+      })
+      .reduce((all, statements) => all.concat(statements), [])
+      .filter((statement) => statement.Effect === "Allow")
+  );
+}
+
+export class NoWildcardIamActions implements PolicyRule {
+  readonly name = "no-wildcard-iam-actions";
+
+  constructor(readonly severity: Severity = "error") {}
+
+  check({ type, attributes }: SynthesizedElement): string[] {
+    return policyStatements(type, attributes)
+      .map((statement) => ([] as string[]).concat(statement.Action || []))
+      .reduce((all, actions) => all.concat(actions), [])
+      .filter((action) => action === "*" || action.endsWith(":*"))
+      .map((action) => `Policy allows all actions via "${action}"`);
+  }
+}
+
+// Actions that don't support resource-level permissions, "*" is the only resource they can be granted on
+const UNSCOPED_ACTIONS = ["ecr:GetAuthorizationToken"];
+
+export class NoWildcardIamResources implements PolicyRule {
+  readonly name = "no-wildcard-iam-resources";
+
+  constructor(
+    readonly severity: Severity = "warning",
+    private unscopedActions: string[] = UNSCOPED_ACTIONS
+  ) {}
+
+  check({ type, attributes }: SynthesizedElement): string[] {
+    return policyStatements(type, attributes)
+      .filter((statement) =>
+        ([] as string[]).concat(statement.Resource || []).includes("*")
+      )
+      .map((statement) =>
+        ([] as string[])
+          .concat(statement.Action || [])
+          .filter((action) => !this.unscopedActions.includes(action))
+      )
+      .filter((actions) => actions.length)
+      .map((actions) => `Policy allows ${actions.join(", ")} on all resources`);
+  }
+}
+
+export class EncryptedDatabases implements PolicyRule {
+  readonly name = "encrypted-databases";
+
+  constructor(readonly severity: Severity = "error") {}
+
+  check({ type, attributes }: SynthesizedElement): string[] {
+    // Neither the RDS module nor the plain resource encrypt by default
+    const encrypted =
+      type.includes("terraform-aws-modules/rds") || type === "aws_db_instance"
+        ? (attributes as DatabaseAttributes).storage_encrypted === true
+        : true;
+
+    return encrypted ? [] : ["Database storage is not encrypted"];
+  }
+}
+
+export class EncryptedBuckets implements PolicyRule {
+  readonly name = "encrypted-buckets";
+
+  constructor(readonly severity: Severity = "error") {}
+
+  check({ node, type }: SynthesizedElement): string[] {
+    if (type !== "aws_s3_bucket") {
+      return [];
+    }
+
+    // The encryption is configured by a separate resource referencing the bucket
+    const reference = `aws_s3_bucket.${node.friendlyUniqueId}.`;
+    const encrypted = TerraformStack.of(node)
+      .node.findAll()
+      .some(
+        (candidate) =>
+          TerraformResource.isTerraformResource(candidate) &&
+          candidate.terraformResourceType ===
+            "aws_s3_bucket_server_side_encryption_configuration" &&
+          JSON.stringify(resolve(candidate, candidate.toTerraform())).includes(
+            reference
+          )
+      );
+
+    return encrypted ? [] : ["Bucket has no server side encryption configured"];
+  }
+}
+
+// The rules every stack of ours is validated against
+export function defaultPolicies(requiredTags: string[]): PolicyRule[] {
+  return [
+    new NoWorldOpenIngress(),
+    new RequiredTags(requiredTags),
+    new NoWildcardIamActions(),
+    new NoWildcardIamResources(),
+    new EncryptedDatabases(),
+    new EncryptedBuckets(),
+  ];
+}
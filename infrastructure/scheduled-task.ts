@@ -0,0 +1,118 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { Construct } from "constructs";
+import { CloudwatchEventRule } from "@cdktf/provider-aws/lib/cloudwatch-event-rule";
+import { CloudwatchEventTarget } from "@cdktf/provider-aws/lib/cloudwatch-event-target";
+import { EcsServiceCapacityProviderStrategy } from "@cdktf/provider-aws/lib/ecs-service";
+import { EcsTaskDefinition } from "@cdktf/provider-aws/lib/ecs-task-definition";
+import { SqsQueue } from "@cdktf/provider-aws/lib/sqs-queue";
+import { SqsQueuePolicy } from "@cdktf/provider-aws/lib/sqs-queue-policy";
+import { EnvironmentConfig, JobTrigger } from "./config";
+import { PolicyDocument, ServiceRole } from "./iam";
+
+export interface ScheduledTaskProps {
+  clusterArn: string;
+  task: EcsTaskDefinition;
+  trigger: JobTrigger;
+  subnets: string[];
+  securityGroups: string[];
+  capacityProviderStrategy: EcsServiceCapacityProviderStrategy[];
+  // Runs an existing task definition with a different command
+  commandOverride?: { containerName: string; command: string[] };
+}
+
+// Starts a task on a schedule or on matching events, runs that can't be started end up in a dead-letter queue
+export class ScheduledTask extends Construct {
+  rule: CloudwatchEventRule;
+  deadLetterQueue: SqsQueue;
+
+  constructor(
+    scope: Construct,
+    name: string,
+    props: ScheduledTaskProps,
+    config: EnvironmentConfig
+  ) {
+    super(scope, name);
+    const tags = config.tags;
+    const prefix = `${config.name}-${name}`;
+    const { task, trigger } = props;
+
+    this.rule = new CloudwatchEventRule(this, `rule`, {
+      name: prefix,
+      description: `Runs the ${name} task`,
+      scheduleExpression: "schedule" in trigger ? trigger.schedule : undefined,
+      eventPattern:
+        "eventPattern" in trigger
+          ? JSON.stringify(trigger.eventPattern)
+          : undefined,
+      tags,
+    });
+
+    // EventBridge needs to start the task and hand its roles over to ECS
+    const role = new ServiceRole(this, `role`, {
+      name: `${prefix}-events`,
+      service: "events.amazonaws.com",
+      tags,
+    });
+    // any revision of the family, the rule always starts the current one
+    role.grant(["ecs:RunTask"], [`${task.arnWithoutRevision}:*`]);
+    role.grant(["iam:PassRole"], [task.executionRoleArn, task.taskRoleArn]);
+
+    // Holds the events of runs that could not be started, e.g. for missing capacity or permissions
+    this.deadLetterQueue = new SqsQueue(this, `dead-letter-queue`, {
+      name: `${prefix}-dlq`,
+      // the maximum, so that we have time to look into it
+      messageRetentionSeconds: 14 * 24 * 60 * 60,
+      sqsManagedSseEnabled: true,
+      tags,
+    });
+
+    new SqsQueuePolicy(this, `dead-letter-queue-policy`, {
+      queueUrl: this.deadLetterQueue.url,
+      policy: new PolicyDocument()
+        .allow(["sqs:SendMessage"], [this.deadLetterQueue.arn], {
+          Principal: { Service: "events.amazonaws.com" },
+          Condition: { ArnEquals: { "aws:SourceArn": this.rule.arn } },
+        })
+        .toJson(),
+    });
+
+    const { commandOverride } = props;
+    new CloudwatchEventTarget(this, `target`, {
+      rule: this.rule.name,
+      arn: props.clusterArn,
+      roleArn: role.arn,
+      ecsTarget: {
+        taskDefinitionArn: task.arnWithoutRevision,
+        taskCount: 1,
+        capacityProviderStrategy: props.capacityProviderStrategy,
+        networkConfiguration: {
+          subnets: props.subnets,
+          securityGroups: props.securityGroups,
+          assignPublicIp: false,
+        },
+        propagateTags: "TASK_DEFINITION",
+      },
+      // EventBridge passes this to ECS as the overrides of the task
+      input: commandOverride
+        ? JSON.stringify({
+            containerOverrides: [
+              {
+                name: commandOverride.containerName,
+                command: commandOverride.command,
+              },
+            ],
+          })
+        : undefined,
+      retryPolicy: {
+        maximumRetryAttempts: 3,
+        // a scheduled run that is late by more than an hour is skipped
+        maximumEventAgeInSeconds: 60 * 60,
+      },
+      deadLetterConfig: { arn: this.deadLetterQueue.arn },
+    });
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+// Definitions of our containers and database, used for ECS (main.ts) and for docker-compose (compose.ts)
+import { DatabaseConfig } from "./config";
+
+// A value that ECS reads from Secrets Manager when the task starts
+export interface ContainerSecret {
+  secretArn: string;
+  // Reads a single key if the secret is stored as JSON
+  jsonKey?: string;
+}
+
+export interface ContainerOptions {
+  // Overrides the CMD of the image
+  command?: string[];
+  env?: Record<string, string | undefined>;
+  secrets?: Record<string, ContainerSecret>;
+  // Ports the container listens on, they are mapped 1:1 in awsvpc mode
+  ports?: number[];
+  // e.g. ["CMD-SHELL", "wget -q -O /dev/null http://localhost/ready || exit 1"]
+  healthCheck?: {
+    command: string[];
+    // in seconds
+    interval?: number;
+    timeout?: number;
+    retries?: number;
+    startPeriod?: number;
+  };
+  // Seconds to wait for the container to exit gracefully before it gets killed
+  stopTimeout?: number;
+  ulimits?: { name: string; softLimit: number; hardLimit: number }[];
+  // Containers of the same task that need to reach a condition before this one starts
+  dependsOn?: {
+    containerName: string;
+    condition: "START" | "COMPLETE" | "SUCCESS" | "HEALTHY";
+  }[];
+}
+
+export const DATABASE_NAME = "dockerintegration";
+// The health check relies on the default HTTP port
+const BACKEND_PORT = 80;
+
+// The Postgres we run, in RDS as well as locally
+export function postgresSettings(database: DatabaseConfig, name: string) {
+  return {
+    engineVersion: database.engineVersion ?? "14.1",
+    database: name,
+    user: `${name}user`,
+    port: 5432,
+    parameters: {
+      // log slow queries so that we can find missing indices
+      log_min_duration_statement: "1000",
+      // connections stuck in a transaction hold locks forever otherwise
+      idle_in_transaction_session_timeout: "60000",
+      ...database.parameters,
+    } as Record<string, string>,
+  };
+}
+
+// Where the backend finds its database, see application/backend/src/db/config.ts
+export interface PostgresConnection {
+  host: string;
+  port: string;
+  user: string;
+  database: string;
+  // ECS reads it from Secrets Manager, locally it is a plain value
+  password: ContainerSecret | string;
+  // Reads are spread over the replicas, without any they go to the primary
+  readHosts?: string[];
+  // Secret holding the rotated password, running tasks read it once the password they got is rejected
+  secretArn?: string;
+}
+
+function postgresOptions(
+  db: PostgresConnection
+): Pick<ContainerOptions, "env" | "secrets"> {
+  const { password } = db;
+  return {
+    env: {
+      POSTGRES_USER: db.user,
+      POSTGRES_DB: db.database,
+      POSTGRES_HOST: db.host,
+      POSTGRES_PORT: db.port,
+      POSTGRES_READ_HOSTS: db.readHosts?.length
+        ? db.readHosts.join(",")
+        : undefined,
+      POSTGRES_PASSWORD: typeof password === "string" ? password : undefined,
+      POSTGRES_SECRET_ARN: db.secretArn,
+    },
+    secrets:
+      typeof password === "string"
+        ? undefined
+        : { POSTGRES_PASSWORD: password },
+  };
+}
+
+// Runs the command in the backend image and exits, e.g. ["node", "src/jobs/cleanup.js"]
+export function backendJobContainer(
+  db: PostgresConnection,
+  command: string[]
+): ContainerOptions {
+  return { ...postgresOptions(db), command, ports: [] };
+}
+
+// Runs the command in the backend image as a service that listens on the port, e.g. an internal API
+export function backendInternalServiceContainer(
+  db: PostgresConnection,
+  command: string[],
+  port: number
+): ContainerOptions {
+  const { env, secrets } = postgresOptions(db);
+  return {
+    env: { ...env, PORT: String(port), SKIP_MIGRATIONS: "true" },
+    secrets,
+    command,
+    ports: [port],
+    stopTimeout: 30,
+  };
+}
+
+// Migrates the database and exits, backend tasks only start once it succeeded
+export function backendMigrationContainer(
+  db: PostgresConnection
+): ContainerOptions {
+  // schema changes always go to the primary
+  return backendJobContainer({ ...db, readHosts: undefined }, [
+    "node",
+    "src/migrate.js",
+  ]);
+}
+
+export function backendContainer(db: PostgresConnection): ContainerOptions {
+  const { env, secrets } = postgresOptions(db);
+  return {
+    env: {
+      ...env,
+      PORT: String(BACKEND_PORT),
+      // the migration container takes care of the schema, we only check its version
+      SKIP_MIGRATIONS: "true",
+    },
+    secrets,
+    ports: [BACKEND_PORT],
+    // node:alpine ships with busybox wget
+    healthCheck: {
+      command: [
+        "CMD-SHELL",
+        "wget -q -O /dev/null http://localhost/ready || exit 1",
+      ],
+      startPeriod: 30,
+    },
+    // give in-flight requests a chance to finish
+    stopTimeout: 30,
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { Construct } from "constructs";
+import { Fn } from "cdktf";
+import { DataAwsCallerIdentity } from "@cdktf/provider-aws/lib/data-aws-caller-identity";
+import { SecurityGroup } from "@cdktf/provider-aws/lib/security-group";
+import { VpcEndpoint } from "@cdktf/provider-aws/lib/vpc-endpoint";
+import { Vpc } from "./.gen/modules/terraform-aws-modules/aws/vpc";
+import { EnvironmentConfig } from "./config";
+import { PolicyDocument } from "./iam";
+
+// Lets tasks in private subnets pull images, ship logs and read secrets without going through the NAT gateway
+export class VpcEndpoints extends Construct {
+  constructor(
+    scope: Construct,
+    name: string,
+    vpc: Vpc,
+    config: EnvironmentConfig
+  ) {
+    super(scope, name);
+    const tags = config.tags;
+    const { region } = config;
+    const { accountId } = new DataAwsCallerIdentity(this, "current");
+
+    // Interface endpoints are ENIs in our subnets, each of them is only reachable via HTTPS from within the VPC
+    const interfaceEndpoints: Record<string, string[]> = {
+      "ecr.api": [
+        "ecr:GetAuthorizationToken",
+        "ecr:BatchCheckLayerAvailability",
+        "ecr:GetDownloadUrlForLayer",
+        "ecr:BatchGetImage",
+      ],
+      "ecr.dkr": [
+        "ecr:BatchCheckLayerAvailability",
+        "ecr:GetDownloadUrlForLayer",
+        "ecr:BatchGetImage",
+      ],
+      logs: ["logs:CreateLogStream", "logs:PutLogEvents"],
+      // the password rotation also talks to Secrets Manager through this endpoint
+      secretsmanager: [
+        "secretsmanager:GetSecretValue",
+        "secretsmanager:DescribeSecret",
+        "secretsmanager:PutSecretValue",
+        "secretsmanager:UpdateSecretVersionStage",
+        "secretsmanager:GetRandomPassword",
+      ],
+    };
+
+    Object.entries(interfaceEndpoints).forEach(([service, actions]) => {
+      const id = service.replace(".", "-");
+      const securityGroup = new SecurityGroup(this, `${id}-security-group`, {
+        name: `${config.name}-${id}-endpoint`,
+        vpcId: Fn.tostring(vpc.vpcIdOutput),
+        ingress: [
+          {
+            protocol: "TCP",
+            fromPort: 443,
+            toPort: 443,
+            cidrBlocks: [config.network.cidr],
+          },
+        ],
+        tags,
+      });
+
+      new VpcEndpoint(this, `${id}-endpoint`, {
+        vpcId: Fn.tostring(vpc.vpcIdOutput),
+        serviceName: `com.amazonaws.${region}.${service}`,
+        vpcEndpointType: "Interface",
+        subnetIds: Fn.tolist(vpc.privateSubnetsOutput),
+        securityGroupIds: [securityGroup.id],
+        // the default service hostnames resolve to the endpoint, so no client needs to be reconfigured
+        privateDnsEnabled: true,
+        policy: new PolicyDocument()
+          .allow(actions, ["*"], {
+            Principal: "*",
+            // only for principals of our own account
+            Condition: {
+              StringEquals: { "aws:PrincipalAccount": accountId },
+            },
+          })
+          .toJson(),
+        tags,
+      });
+    });
+
+    // S3 is a gateway endpoint, it works via the route tables of the private subnets
+    new VpcEndpoint(this, `s3-endpoint`, {
+      vpcId: Fn.tostring(vpc.vpcIdOutput),
+      serviceName: `com.amazonaws.${region}.s3`,
+      vpcEndpointType: "Gateway",
+      routeTableIds: Fn.tolist(vpc.privateRouteTableIdsOutput),
+      policy: new PolicyDocument()
+        // ECR stores the image layers in this AWS owned bucket
+        .allow(
+          ["s3:GetObject"],
+          [`arn:aws:s3:::prod-${region}-starport-layer-bucket/*`],
+          { Sid: "EcrImageLayers", Principal: "*" }
+        )
+        .allow(["s3:*"], ["*"], {
+          Sid: "OwnBuckets",
+          Principal: "*",
+          Condition: {
+            StringEquals: { "aws:ResourceAccount": accountId },
+          },
+        })
+        .toJson(),
+      tags,
+    });
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Copyright (c) HashiCorp, Inc.
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+import { Construct } from "constructs";
+import { TerraformProvider } from "cdktf";
+import { CloudwatchLogGroup } from "@cdktf/provider-aws/lib/cloudwatch-log-group";
+import { Wafv2IpSet } from "@cdktf/provider-aws/lib/wafv2-ip-set";
+import {
+  Wafv2WebAcl,
+  Wafv2WebAclRule,
+} from "@cdktf/provider-aws/lib/wafv2-web-acl";
+import { Wafv2WebAclLoggingConfiguration } from "@cdktf/provider-aws/lib/wafv2-web-acl-logging-configuration";
+import { EnvironmentConfig, WafConfig } from "./config";
+
+const WRITE_METHODS = "^(POST|PUT|PATCH|DELETE)$";
+
+export interface WebApplicationFirewallProps {
+  // Requests to this path prefix count against the write rate limit, e.g. "/backend/"
+  rateLimitedPath: string;
+  // Web ACLs for CloudFront have to be created in us-east-1
+  provider?: TerraformProvider;
+}
+
+// A web ACL for our CloudFront distribution, it filters requests before they reach the load balancer
+export class WebApplicationFirewall extends Construct {
+  webAcl: Wafv2WebAcl;
+
+  constructor(
+    scope: Construct,
+    name: string,
+    props: WebApplicationFirewallProps,
+    waf: WafConfig,
+    config: EnvironmentConfig
+  ) {
+    super(scope, name);
+    const tags = config.tags;
+    const { provider } = props;
+    const prefix = `${config.name}-${name}`;
+    const visibilityConfig = (metricName: string) => ({
+      cloudwatchMetricsEnabled: true,
+      metricName: `${prefix}-${metricName}`,
+      sampledRequestsEnabled: true,
+    });
+    // In count mode every rule only reports what it would have blocked
+    const blockAction = waf.countOnly ? { count: {} } : { block: {} };
+    const rules: Wafv2WebAclRule[] = [];
+
+    const ipRule = (
+      id: string,
+      cidrs: string[],
+      action: Wafv2WebAclRule["action"]
+    ) => {
+      // A set only holds addresses of one IP version
+      const sets = [
+        { version: "IPV4", addresses: cidrs.filter((c) => !c.includes(":")) },
+        { version: "IPV6", addresses: cidrs.filter((c) => c.includes(":")) },
+      ]
+        .filter(({ addresses }) => addresses.length)
+        .map(
+          ({ version, addresses }) =>
+            new Wafv2IpSet(this, `${id}-${version.toLowerCase()}`, {
+              name: `${prefix}-${id}-${version.toLowerCase()}`,
+              scope: "CLOUDFRONT",
+              ipAddressVersion: version,
+              addresses,
+              provider,
+              tags,
+            })
+        );
+
+      sets.forEach((set, i) =>
+        rules.push({
+          name: `${id}-${i}`,
+          priority: rules.length,
+          action,
+          statement: { ipSetReferenceStatement: { arn: set.arn } },
+          visibilityConfig: visibilityConfig(`${id}-${i}`),
+        })
+      );
+    };
+
+    // Blocked addresses go first so that they can never be allowed by a later rule
+    ipRule("blocked-ips", waf.blockedIps, blockAction);
+    ipRule("allowed-ips", waf.allowedIps, { allow: {} });
+
+    waf.managedRuleGroups.forEach((ruleGroup) =>
+      rules.push({
+        name: ruleGroup,
+        priority: rules.length,
+        overrideAction: waf.countOnly ? { count: {} } : { none: {} },
+        statement: {
+          managedRuleGroupStatement: { vendorName: "AWS", name: ruleGroup },
+        },
+        visibilityConfig: visibilityConfig(ruleGroup),
+      })
+    );
+
+    // Reading is cheap, but every write ends up in our database
+    rules.push({
+      name: "write-rate-limit",
+      priority: rules.length,
+      action: blockAction,
+      statement: {
+        rateBasedStatement: {
+          limit: waf.writeRateLimit,
+          aggregateKeyType: "IP",
+          scopeDownStatement: {
+            andStatement: {
+              statement: [
+                {
+                  byteMatchStatement: {
+                    fieldToMatch: { uriPath: {} },
+                    positionalConstraint: "STARTS_WITH",
+                    searchString: props.rateLimitedPath,
+                    textTransformation: [{ priority: 0, type: "NONE" }],
+                  },
+                },
+                {
+                  regexMatchStatement: {
+                    fieldToMatch: { method: {} },
+                    regexString: WRITE_METHODS,
+                    textTransformation: [{ priority: 0, type: "NONE" }],
+                  },
+                },
+              ],
+            },
+          },
+        },
+      },
+      visibilityConfig: visibilityConfig("write-rate-limit"),
+    });
+
+    this.webAcl = new Wafv2WebAcl(this, `web-acl`, {
+      name: prefix,
+      description: `Protects the ${config.name} CDN`,
+      scope: "CLOUDFRONT",
+      defaultAction: { allow: {} },
+      rule: rules,
+      visibilityConfig: visibilityConfig("web-acl"),
+      provider,
+      tags,
+    });
+
+    // WAF only delivers logs to log groups with this prefix
+    const logGroup = new CloudwatchLogGroup(this, `logs`, {
+      name: `aws-waf-logs-${prefix}`,
+      retentionInDays: 30,
+      provider,
+      tags,
+    });
+
+    new Wafv2WebAclLoggingConfiguration(this, `logging`, {
+      resourceArn: this.webAcl.arn,
+      logDestinationConfigs: [logGroup.arn],
+      // Allowed requests are already in the CloudFront access logs
+      loggingFilter: {
+        defaultBehavior: "DROP",
+        filter: [
+          {
+            behavior: "KEEP",
+            requirement: "MEETS_ANY",
+            condition: [
+              { actionCondition: { action: "BLOCK" } },
+              { actionCondition: { action: "COUNT" } },
+            ],
+          },
+        ],
+      },
+      provider,
+    });
+  }
+}